@@ -36,6 +36,28 @@ export class MapComponent extends BaseScriptComponent {
   userPinScale: vec2;
   @input
   userPinAlignedWithOrientation: boolean;
+  @input
+  @hint("Id of the location source (see LocationSourceRegistry) driving the user pin, e.g. spectacles, mobile-kit or fused. Leave empty to use the device location directly (bypassing any FixQualityGate)")
+  userLocationSourceId: string = "";
+  @input
+  @hint("Orient the user pin (and the auto-rotating minimap) by the course over ground instead of the compass heading while the user is moving")
+  orientByCourseWhenMoving: boolean = false;
+  @input
+  @hint("Id of the location source (see LocationSourceRegistry) providing the heading of the user pin instead of the device compass, e.g. mobile-kit for the phone compass. Leave empty to use the device compass")
+  userHeadingSourceId: string = "";
+  @input
+  @hint("Time constant of the user pin heading smoothing in seconds (higher is smoother but lags more), 0 disables it. Only used while Enable Map Smoothing is on")
+  headingSmoothingTime: number = 0.2;
+  @input
+  @hint("Draw a translucent circle around the user pin scaled to the horizontal accuracy of its location. Map pins get one with setMapPinAccuracy")
+  showAccuracyCircles: boolean = true;
+  @input
+  @hint("Draw a cone from the user pin in the heading direction, as wide as the uncertainty of the heading (the jitter of the recent headings while the head is still)")
+  showHeadingCone: boolean = false;
+  @showIf("showHeadingCone", true)
+  @input
+  @hint("Length of the heading cone as a fraction of the map width")
+  headingConeLength: number = 0.15;
   @ui.group_end
   @ui.separator
   @ui.label("Map Pins")
@@ -139,6 +161,13 @@ export class MapComponent extends BaseScriptComponent {
       enableMapSmoothing: this.enableMapSmoothing,
       mapPinPrefab: this.mapPinPrefab,
       mapPinCursorDetectorSize: this.mapPinCursorDetectorSize,
+      userLocationSourceId: this.userLocationSourceId,
+      orientByCourseWhenMoving: this.orientByCourseWhenMoving,
+      userHeadingSourceId: this.userHeadingSourceId,
+      headingSmoothingTime: this.headingSmoothingTime,
+      showAccuracyCircles: this.showAccuracyCircles,
+      showHeadingCone: this.showHeadingCone,
+      headingConeLength: this.headingConeLength,
     };
 
     this.mapController.initialize(mapParameters, this.startedAsMiniMap);
@@ -251,6 +280,69 @@ export class MapComponent extends BaseScriptComponent {
     this.mapController.setUserPinRotated(value);
   }
 
+  /**
+   * Setting if the user pin and map should be oriented by the course over ground instead of the compass while moving
+   */
+  setOrientByCourseWhenMoving(value: boolean): void {
+    this.mapController.setOrientByCourseWhenMoving(value);
+  }
+
+  /**
+   * Setting the location source (by id, see LocationSourceRegistry) that drives the user pin and map location.
+   * An empty id switches back to the device location
+   */
+  setUserLocationSource(sourceId: string): void {
+    this.mapController.setUserLocationSource(sourceId);
+  }
+
+  /**
+   * Return the id of the location source driving the user pin, empty when using the device location
+   */
+  getUserLocationSourceId(): string {
+    return this.mapController.getUserLocationSourceId();
+  }
+
+  /**
+   * Setting the map to a custom location instead of following the user location, and centering it there
+   * @returns false when the map is not initialized yet
+   */
+  setCustomMapLocation(longitude: number, latitude: number): boolean {
+    const location = GeoPosition.create();
+    location.longitude = longitude;
+    location.latitude = latitude;
+    return this.mapController.setCustomMapLocation(location);
+  }
+
+  /**
+   * Switching the map back to following the user location
+   */
+  clearCustomMapLocation(): void {
+    this.mapController.setCustomMapLocation(null);
+  }
+
+  /**
+   * Return if the map is set to a custom location instead of following the user location
+   */
+  hasCustomMapLocation(): boolean {
+    return this.mapController.hasCustomMapLocation();
+  }
+
+  /**
+   * Setting the heading source (by id, see LocationSourceRegistry) used instead of the device compass for the user pin,
+   * e.g. "mobile-kit" for the phone compass. An empty id switches back to the device compass
+   */
+  setUserHeadingSource(sourceId: string): void {
+    this.mapController.setUserHeadingSource(sourceId);
+  }
+
+  /**
+   * Setting a heading in radians that replaces the device heading for the user pin (e.g. for a replayed session).
+   * Null switches back to the device heading
+   */
+  setUserHeadingOverride(heading: number | null): void {
+    this.mapController.setUserHeadingOverride(heading);
+  }
+
   /**
    * For enabling/disabling scrolling of the map from script
    */
@@ -272,6 +364,13 @@ export class MapComponent extends BaseScriptComponent {
     return this.mapController.getUserHeading();
   }
 
+  /**
+   * Return the compass heading angle in radians, ignoring any heading override and course orientation
+   */
+  getCompassHeading(): number {
+    return this.mapController.getCompassHeading();
+  }
+
   /**
    * Return the user orientation in quaternion.
    * Gradually becomes north-aligned when GNSS signal is available
@@ -319,6 +418,36 @@ export class MapComponent extends BaseScriptComponent {
     this.mapController.removeMapPins();
   }
 
+  /**
+   * Setting the horizontal accuracy in meters of a map pin's location, drawn as a circle around the pin.
+   * Null removes the circle
+   */
+  setMapPinAccuracy(mapPin: MapPin, accuracy: number | null): void {
+    this.mapController.setMapPinAccuracy(mapPin, accuracy);
+  }
+
+  /**
+   * For showing/hiding the accuracy circles around the user pin and the map pins
+   */
+  setShowAccuracyCircles(value: boolean): void {
+    this.mapController.setShowAccuracyCircles(value);
+  }
+
+  /**
+   * For showing/hiding the heading cone on the user pin
+   */
+  setShowHeadingCone(value: boolean): void {
+    this.mapController.setShowHeadingCone(value);
+  }
+
+  /**
+   * Returns the uncertainty of the user pin heading in degrees, the circular standard deviation of the
+   * recent headings around the smoothed heading
+   */
+  getHeadingUncertainty(): number {
+    return this.mapController.getHeadingUncertainty();
+  }
+
   /**
    * Centering map to intial location
    */
@@ -390,6 +519,20 @@ export class MapComponent extends BaseScriptComponent {
     this.mapController.handleZoomOut();
   }
 
+  /**
+   * Return the zoom level of the map tiles
+   */
+  getZoomLevel(): number {
+    return this.mapController.getZoomLevel();
+  }
+
+  /**
+   * Setting the zoom level of the map tiles
+   */
+  setZoomLevel(zoomLevel: number): void {
+    this.mapController.setZoomLevel(zoomLevel);
+  }
+
   /**
    * Toggling between mini map and full map
    */
@@ -402,22 +545,36 @@ export class MapComponent extends BaseScriptComponent {
   /**
    * Drawing geometry point to map
    */
-  drawGeometryPoint(geometry, radius): void {
-    this.mapController.drawGeometryPoint(geometry, radius);
+  drawGeometryPoint(geometry, radius): SceneObject {
+    return this.mapController.drawGeometryPoint(geometry, radius);
   }
 
   /**
    * Drawing geometry line to map
    */
-  drawGeometryLine(geometry, thickness): void {
-    this.mapController.drawGeometryLine(geometry, thickness);
+  drawGeometryLine(geometry, thickness): SceneObject {
+    return this.mapController.drawGeometryLine(geometry, thickness);
+  }
+
+  /**
+   * Drawing geometry line to map that can be moved later with moveGeometryLine
+   */
+  drawMovableGeometryLine(geometry, thickness): SceneObject {
+    return this.mapController.drawMovableGeometryLine(geometry, thickness);
+  }
+
+  /**
+   * Moving a line drawn with drawMovableGeometryLine to new end points
+   */
+  moveGeometryLine(sceneObject: SceneObject, geometry): void {
+    this.mapController.moveGeometryLine(sceneObject, geometry);
   }
 
   /**
    * Drawing geometry multiline to map
    */
-  drawGeometryMultiline(geometry, thickness): void {
-    this.mapController.drawGeometryMultiline(geometry, thickness);
+  drawGeometryMultiline(geometry, thickness): SceneObject {
+    return this.mapController.drawGeometryMultiline(geometry, thickness);
   }
 
   /**
@@ -427,5 +584,12 @@ export class MapComponent extends BaseScriptComponent {
     this.mapController.clearGeometry();
   }
 
+  /**
+   * Removing one drawn geometry, as returned by the drawGeometry functions
+   */
+  removeGeometry(sceneObject: SceneObject): void {
+    this.mapController.removeGeometry(sceneObject);
+  }
+
   // #endregion
 }
@@ -20,12 +20,24 @@ import {
   calculateZoomOffset,
   addRenderMeshVisual,
   makeCircle2DMesh,
+  makeLine2DMesh,
   makeLineStrip2DMeshWithJoints,
+  makeSector2DMesh,
   normalizeAngle,
   customGetEuler,
 } from "./MapUtils";
 import { PinOffsetter } from "./PinOffsetter";
 import { PlaceInfo, SnapPlacesProvider } from "./SnapPlacesProvider";
+import {
+  createLocationFix,
+  LocationFix,
+  locationFixToGeoPosition,
+} from "../../Scripts/LocationSource";
+import { fromLocalMeters } from "../../Scripts/GeoMath";
+import { HeadingFilter } from "../../Scripts/HeadingFilter";
+import { HeadingJitter } from "../../Scripts/HeadingJitter";
+import { LocationSourceRegistry } from "../../Scripts/LocationSourceRegistry";
+import { MotionTracker } from "../../Scripts/MotionTracker";
 
 const TEXTURE_SIZE = 512;
 
@@ -36,6 +48,20 @@ const NEARBY_PLACES_COUNT = 10;
 
 const CENTER_MAP_TWEEN_DURATION = 0.5;
 
+// Time in seconds after which the heading of a heading source is considered lost and the compass is used again
+const HEADING_SOURCE_TIMEOUT = 3;
+
+// The heading jitter is measured over this many frames in which the head was still
+const HEADING_JITTER_WINDOW = 60;
+
+// Half angle of the heading cone in degrees, two standard deviations of the heading jitter within these limits
+const MIN_HEADING_CONE_HALF_ANGLE = 5;
+const MAX_HEADING_CONE_HALF_ANGLE = 90;
+const HEADING_CONE_SEGMENTS = 16;
+
+// The mesh of the heading cone is only rebuilt when its half angle changed by more than this many degrees
+const HEADING_CONE_REBUILD_THRESHOLD = 1;
+
 const TAG = "[Map Controller]";
 const log = new NativeLogger(TAG);
 
@@ -47,6 +73,12 @@ export class MapController extends BaseScriptComponent {
   mapTilePrefab: ObjectPrefab;
   @input
   lineMaterial: Material;
+  @input
+  @allowUndefined
+  accuracyCircleMaterial: Material;
+  @input
+  @allowUndefined
+  headingConeMaterial: Material;
 
   @input
   mapRenderPrefab: ObjectPrefab;
@@ -83,6 +115,25 @@ export class MapController extends BaseScriptComponent {
   private loadedCells = 0;
   private mapCellCount = 0;
 
+  // Location source
+  private userLocationSourceId = "";
+  private unsubscribeUserLocationSource: () => void = null;
+  private userLocationSourceLocation: GeoPosition = null;
+  private motionTracker: MotionTracker = new MotionTracker();
+
+  // Heading source
+  private userHeadingSourceId = "";
+  private unsubscribeUserHeadingSource: () => void = null;
+  private userHeadingSourceHeading: number | null = null; // in radians
+  private userHeadingSourceTime = 0;
+
+  // Heading cone
+  private headingJitter: HeadingJitter = new HeadingJitter(
+    HEADING_JITTER_WINDOW
+  );
+  private headingCone: SceneObject | null = null;
+  private headingConeHalfAngle = 0; // in degrees, as built into the mesh
+
   // Pin
   private hoveringPinSet: Set<MapPin> = new Set();
   private pinSet: Set<MapPin> = new Set();
@@ -95,13 +146,13 @@ export class MapController extends BaseScriptComponent {
   private mapScreenTransform: ScreenTransform;
 
   // Rotations
-  private currentUserRotation: quat = quat.fromEulerAngles(0, 0, 0);
-  private targetUserRotation: quat = quat.fromEulerAngles(0, 0, 0);
+  private userHeadingFilter: HeadingFilter = new HeadingFilter(); // circular smoothing of the user pin heading
   private currentMapRotation: quat = quat.fromEulerAngles(0, 0, 0);
   private targetMapRotation: quat = quat.fromEulerAngles(0, 0, 0);
   private currentPinRotation: quat = quat.fromEulerAngles(0, 0, 0);
   private targetPinRotation: quat = quat.fromEulerAngles(0, 0, 0);
   private heading = 0; // in radians
+  private headingOverride: number | null = null; // in radians, replaces the device heading when set
   private orientation = quat.quatIdentity();
 
   private tweenCancelFunction: CancelFunction;
@@ -164,6 +215,10 @@ export class MapController extends BaseScriptComponent {
     this.locationService.accuracy = GeoLocationAccuracy.Navigation;
 
     this.mapParameters = mapParameters;
+    // Map smoothing switches the heading smoothing of the user pin on and off along with the map and pin rotations
+    this.userHeadingFilter.smoothingTime = mapParameters.enableMapSmoothing
+      ? mapParameters.headingSmoothingTime
+      : 0;
 
     this.mapRenderObject = this.mapRenderPrefab.instantiate(
       mapParameters.renderParent
@@ -182,6 +237,9 @@ export class MapController extends BaseScriptComponent {
       this.mapLocation = this.mapParameters.mapLocation;
     }
 
+    this.setUserLocationSource(mapParameters.userLocationSourceId);
+    this.setUserHeadingSource(mapParameters.userHeadingSourceId);
+
     this.fetchLocation((location: GeoPosition) => {
       if (!this.mapParameters.setMapToCustomLocation) {
         this.mapLocation = location;
@@ -224,21 +282,41 @@ export class MapController extends BaseScriptComponent {
       getTime() - this.lastMapUpdate >
       this.mapParameters.mapUpdateThreshold
     ) {
-      this.fetchLocation((location: GeoPosition) => {
-        if (!this.mapParameters.setMapToCustomLocation) {
-          this.setNewMapLocation(location);
-        }
-
-        if (this.mapParameters.showUserPin) {
-          this.setNewUserPosition(location);
-        }
-      });
+      if (this.userLocationSourceId === "") {
+        this.fetchLocation((location: GeoPosition) => {
+          this.motionTracker.update(
+            createLocationFix(
+              "",
+              location.latitude,
+              location.longitude,
+              location.horizontalAccuracy,
+              location.altitude,
+              location.verticalAccuracy,
+              "",
+              location.timestamp.getTime()
+            )
+          );
+          this.handleLocationUpdate(location);
+        });
+      } else if (this.userLocationSourceLocation !== null) {
+        this.handleLocationUpdate(this.userLocationSourceLocation);
+      }
 
       this.lastMapUpdate = getTime();
     }
     this.updateRotations();
   }
 
+  private handleLocationUpdate(location: GeoPosition) {
+    if (!this.mapParameters.setMapToCustomLocation) {
+      this.setNewMapLocation(location);
+    }
+
+    if (this.mapParameters.showUserPin) {
+      this.setNewUserPosition(location);
+    }
+  }
+
   private fetchLocation(callback: callback<GeoPosition>) {
     this.locationService.getCurrentPosition(
       (geoPosition) => {
@@ -330,26 +408,28 @@ export class MapController extends BaseScriptComponent {
   }
 
   private updateUserPinRotation(pinRotation: number) {
+    const heading = -pinRotation * MathUtils.RadToDeg;
+
+    // Smooth the heading itself rather than the rotation, so the pin doesn't spin the long way round at north
+    const smoothedHeading = this.userHeadingFilter.update(
+      heading,
+      getDeltaTime()
+    );
+
+    this.headingJitter.update(heading, getDeltaTime());
+
     if (
       this.userPin.screenTransform &&
       this.mapParameters.userPinAlignedWithOrientation
     ) {
-      if (this.mapParameters.enableMapSmoothing) {
-        this.targetUserRotation = quat.fromEulerAngles(0, 0, pinRotation);
-        this.currentUserRotation = interpolate(
-          this.currentUserRotation,
-          this.targetUserRotation,
-          4
-        );
-        this.userPin.screenTransform.rotation = this.currentUserRotation;
-      } else {
-        this.userPin.screenTransform.rotation = quat.fromEulerAngles(
-          0,
-          0,
-          pinRotation
-        );
-      }
+      this.userPin.screenTransform.rotation = quat.fromEulerAngles(
+        0,
+        0,
+        -smoothedHeading * MathUtils.DegToRad
+      );
     }
+
+    this.updateHeadingCone();
   }
 
   //  Exposed functions
@@ -360,6 +440,40 @@ export class MapController extends BaseScriptComponent {
   }
 
   getUserHeading(): number {
+    if (this.headingOverride !== null) {
+      return this.headingOverride;
+    }
+
+    if (
+      this.isInitialized &&
+      this.mapParameters.orientByCourseWhenMoving &&
+      this.motionTracker.isMoving()
+    ) {
+      return this.motionTracker.course * MathUtils.DegToRad;
+    }
+
+    if (
+      this.userHeadingSourceHeading !== null &&
+      getTime() - this.userHeadingSourceTime < HEADING_SOURCE_TIMEOUT
+    ) {
+      return this.userHeadingSourceHeading;
+    }
+
+    return this.getCompassHeading();
+  }
+
+  /**
+   * Returns the uncertainty of the user pin heading in degrees, the jitter of the recent headings
+   * while the head was still
+   */
+  getHeadingUncertainty(): number {
+    return this.headingJitter.getJitter();
+  }
+
+  /**
+   * Returns the compass heading in radians, ignoring any heading override and course orientation
+   */
+  getCompassHeading(): number {
     // TODO: Remove the negative sign when the heading is fixed in the Lens Studio
     if (global.deviceInfoSystem.isEditor()) {
       return -this.heading;
@@ -418,6 +532,7 @@ export class MapController extends BaseScriptComponent {
     const pinScreenTransform =
       mapPin.sceneObject.getComponent("ScreenTransform");
     this.pinOffsetter.unbindScreenTransform(pinScreenTransform);
+    this.removeAccuracyCircle(mapPin);
     mapPin.sceneObject.destroy();
 
     this.onMapPinRemovedEvent.invoke(mapPin);
@@ -430,6 +545,7 @@ export class MapController extends BaseScriptComponent {
     this.pinSet.forEach((pin: MapPin) => {
       this.pinOffsetter.unbindScreenTransform(pin.screenTransform);
       this.pinSet.delete(pin);
+      this.removeAccuracyCircle(pin);
       pin.sceneObject.destroy();
     });
 
@@ -679,6 +795,129 @@ export class MapController extends BaseScriptComponent {
     this.config.verticalScrollingEnabled = value;
   }
 
+  /**
+   * For showing/hiding the accuracy circles around the user pin and the map pins
+   */
+  setShowAccuracyCircles(value: boolean): void {
+    this.mapParameters.showAccuracyCircles = value;
+    this.updateAccuracyCircles();
+  }
+
+  /**
+   * For showing/hiding the heading cone on the user pin
+   */
+  setShowHeadingCone(value: boolean): void {
+    this.mapParameters.showHeadingCone = value;
+    this.updateHeadingCone();
+  }
+
+  /**
+   * Setting the location source (by id, see LocationSourceRegistry) used for the user pin and map location.
+   * An empty id switches back to fetching the device location
+   */
+  setUserLocationSource(sourceId: string): void {
+    if (this.unsubscribeUserLocationSource !== null) {
+      this.unsubscribeUserLocationSource();
+      this.unsubscribeUserLocationSource = null;
+    }
+
+    this.userLocationSourceId = sourceId ?? "";
+    this.userLocationSourceLocation = null;
+    this.motionTracker.reset();
+
+    if (this.userLocationSourceId === "") {
+      return;
+    }
+
+    log.i(`Using location source: ${this.userLocationSourceId}`);
+    const registry = LocationSourceRegistry.getInstance();
+    // Start from the last fix that passed the fix filter, so the pin doesn't jump to a rejected fix
+    const lastFix = registry.getLastAcceptedFix(this.userLocationSourceId);
+    if (lastFix !== null) {
+      this.userLocationSourceLocation = locationFixToGeoPosition(lastFix);
+    }
+    this.unsubscribeUserLocationSource = registry.subscribe(
+      this.userLocationSourceId,
+      (fix: LocationFix) => {
+        this.userLocationSourceLocation = locationFixToGeoPosition(fix);
+        this.motionTracker.update(fix);
+      }
+    );
+  }
+
+  getUserLocationSourceId(): string {
+    return this.userLocationSourceId;
+  }
+
+  /**
+   * Setting the map to a custom location instead of following the user location. Null switches back to
+   * following the user location. The map is centered on the new location
+   * @returns false when the map is not initialized yet
+   */
+  setCustomMapLocation(location: GeoPosition | null): boolean {
+    if (!this.isInitialized) {
+      return false;
+    }
+
+    this.mapParameters.setMapToCustomLocation = location !== null;
+    this.mapParameters.mapLocation = location;
+
+    const mapLocation = location ?? this.userLocation;
+    if (mapLocation !== undefined) {
+      this.setNewMapLocation(mapLocation);
+    }
+    this.centerMap();
+    return true;
+  }
+
+  hasCustomMapLocation(): boolean {
+    return this.mapParameters.setMapToCustomLocation;
+  }
+
+  /**
+   * Setting the heading source (by id, see LocationSourceRegistry) used instead of the device compass for the
+   * user pin and minimap rotation, e.g. "mobile-kit" for the phone compass. Falls back to the device compass
+   * while the source reports no heading. An empty id switches back to the device compass
+   */
+  setUserHeadingSource(sourceId: string): void {
+    if (this.unsubscribeUserHeadingSource !== null) {
+      this.unsubscribeUserHeadingSource();
+      this.unsubscribeUserHeadingSource = null;
+    }
+
+    this.userHeadingSourceId = sourceId ?? "";
+    this.userHeadingSourceHeading = null;
+
+    if (this.userHeadingSourceId === "") {
+      return;
+    }
+
+    log.i(`Using heading source: ${this.userHeadingSourceId}`);
+    this.unsubscribeUserHeadingSource =
+      LocationSourceRegistry.getInstance().subscribeHeading(
+        this.userHeadingSourceId,
+        (heading: number) => {
+          this.userHeadingSourceHeading = heading * MathUtils.DegToRad;
+          this.userHeadingSourceTime = getTime();
+        }
+      );
+  }
+
+  /**
+   * Setting a heading (in radians, same convention as getUserHeading) that replaces the device heading,
+   * e.g. when replaying a recorded session. Null switches back to the device heading
+   */
+  setUserHeadingOverride(heading: number | null): void {
+    this.headingOverride = heading;
+  }
+
+  /**
+   * Setting if the user pin and map should be oriented by the course over ground instead of the compass while moving
+   */
+  setOrientByCourseWhenMoving(value: boolean): void {
+    this.mapParameters.orientByCourseWhenMoving = value;
+  }
+
   /**
    * Setting if user pin should be rotated
    */
@@ -778,6 +1017,7 @@ export class MapController extends BaseScriptComponent {
         this.draggingPin.location.latitude
       );
       this.draggingPin.location.altitude = this.userLocation.altitude;
+      this.updateAccuracyCircle(this.draggingPin);
 
       this.hoveringPinSet.add(this.draggingPin);
       this.draggingPin.sceneObject.getChild(0).enabled = true;
@@ -790,23 +1030,26 @@ export class MapController extends BaseScriptComponent {
   }
 
   handleZoomIn(): void {
-    this.mapParameters.zoomLevel++;
-    this.mapParameters.zoomOffet = calculateZoomOffset(
-      this.mapParameters.zoomLevel
-    );
-    this.setUpZoom();
-    this.gridView.layoutCells(true);
-    this.pinSet.forEach((pin: MapPin) => {
-      this.pinOffsetter.bindScreenTransformToLocation(
-        pin.screenTransform,
-        pin.location.longitude,
-        pin.location.latitude
-      );
-    });
+    this.setZoomLevel(this.mapParameters.zoomLevel + 1);
   }
 
   handleZoomOut(): void {
-    this.mapParameters.zoomLevel--;
+    this.setZoomLevel(this.mapParameters.zoomLevel - 1);
+  }
+
+  getZoomLevel(): number {
+    return this.mapParameters.zoomLevel;
+  }
+
+  /**
+   * Setting the zoom level of the map tiles, and laying out the cells and pins again
+   */
+  setZoomLevel(zoomLevel: number): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    this.mapParameters.zoomLevel = zoomLevel;
     this.mapParameters.zoomOffet = calculateZoomOffset(
       this.mapParameters.zoomLevel
     );
@@ -819,6 +1062,8 @@ export class MapController extends BaseScriptComponent {
         pin.location.latitude
       );
     });
+    this.updateAccuracyCircles();
+    this.updateHeadingCone();
   }
 
   toggleMiniMap(isOn: boolean): void {
@@ -833,6 +1078,8 @@ export class MapController extends BaseScriptComponent {
         pin.screenTransform.rotation = quat.quatIdentity();
       });
     }
+    this.updateAccuracyCircles();
+    this.updateHeadingCone();
 
     this.onMiniMapToggledEvent.invoke(isOn);
   }
@@ -854,6 +1101,10 @@ export class MapController extends BaseScriptComponent {
     );
     this.pinOffsetter.layoutScreenTransforms(this.gridView);
 
+    this.userPin.accuracy = location.horizontalAccuracy;
+    this.updateAccuracyCircle(this.userPin);
+    this.updateHeadingCone();
+
     if (oldUserLocation === undefined && location !== undefined) {
       this.onUserLocationSetEvent.invoke(location);
     }
@@ -890,73 +1141,87 @@ export class MapController extends BaseScriptComponent {
 
   /**
    * Drawing geometry point to map
+   * @returns The scene object of the geometry, to remove it again with removeGeometry
    */
-  drawGeometryPoint(geometryPoint: vec2, radius: number = 0.1) {
+  drawGeometryPoint(geometryPoint: vec2, radius: number = 0.1): SceneObject {
     const position: vec3 = this.getWorldPositionForGeometryPoint(geometryPoint);
 
-    const sceneObject = global.scene.createSceneObject("");
-    sceneObject.setParent(this.getSceneObject());
-    const screenTransform = sceneObject.createComponent(
-      "Component.ScreenTransform"
+    const sceneObject = this.createGeometryObject(
+      makeCircle2DMesh(position, radius),
+      this.lineMaterial
     );
-    screenTransform.rotation = this.currentMapRotation.invert();
+    this.geometryObjects.push(sceneObject);
+    return sceneObject;
+  }
 
-    const renderMeshSceneObject = global.scene.createSceneObject("");
-    renderMeshSceneObject.setParent(sceneObject);
-    renderMeshSceneObject.layer = this.getSceneObject().layer;
+  /**
+   * Drawing geometry line to map
+   * @returns The scene object of the geometry, to remove it again with removeGeometry
+   */
+  drawGeometryLine(geometryLine: vec2[], thickness: number = 0.2): SceneObject {
+    const start = this.getWorldPositionForGeometryPoint(geometryLine[0]);
+    const end = this.getWorldPositionForGeometryPoint(geometryLine[1]);
 
-    addRenderMeshVisual(
-      renderMeshSceneObject,
-      makeCircle2DMesh(position, radius),
-      this.lineMaterial,
-      this.mapRenderOrder + 1
+    const sceneObject = this.createGeometryObject(
+      makeLineStrip2DMeshWithJoints([start, end], thickness),
+      this.lineMaterial
     );
+    this.geometryObjects.push(sceneObject);
+    return sceneObject;
+  }
 
-    this.pinOffsetter.bindScreenTransformToLocation(
-      screenTransform,
-      this.mapLocation.longitude,
-      this.mapLocation.latitude
+  /**
+   * Drawing geometry line to map that can be moved to new end points with moveGeometryLine,
+   * instead of being removed and drawn again
+   * @returns The scene object of the geometry, to move it and to remove it again with removeGeometry
+   */
+  drawMovableGeometryLine(geometryLine: vec2[], thickness: number = 0.2): SceneObject {
+    // A line of unit length pointing up (+y), stretched to the end points by moveGeometryLine
+    const sceneObject = this.createGeometryObject(
+      makeLine2DMesh(vec3.zero(), vec3.up(), thickness),
+      this.lineMaterial
     );
     this.geometryObjects.push(sceneObject);
+    this.moveGeometryLine(sceneObject, geometryLine);
+    return sceneObject;
   }
 
   /**
-   * Drawing geometry line to map
+   * Moving a line drawn with drawMovableGeometryLine to new end points
    */
-  drawGeometryLine(geometryLine: vec2[], thickness: number = 0.2) {
+  moveGeometryLine(sceneObject: SceneObject, geometryLine: vec2[]): void {
     const start = this.getWorldPositionForGeometryPoint(geometryLine[0]);
     const end = this.getWorldPositionForGeometryPoint(geometryLine[1]);
+    const direction = end.sub(start);
 
-    const sceneObject = global.scene.createSceneObject("");
-    sceneObject.setParent(this.getSceneObject());
-    const screenTransform = sceneObject.createComponent(
-      "Component.ScreenTransform"
+    const transform = this.placeGeometryMesh(sceneObject, start, 1);
+    transform.setWorldRotation(
+      quat.fromEulerAngles(0, 0, Math.atan2(-direction.x, direction.y))
     );
-    screenTransform.rotation = this.currentMapRotation.invert();
-
-    var renderMeshSceneObject = global.scene.createSceneObject("");
-    renderMeshSceneObject.setParent(sceneObject);
-    renderMeshSceneObject.layer = this.getSceneObject().layer;
+    transform.setWorldScale(new vec3(1, direction.length, 1));
+  }
 
-    addRenderMeshVisual(
-      renderMeshSceneObject,
-      makeLineStrip2DMeshWithJoints([start, end], thickness),
-      this.lineMaterial,
-      this.mapRenderOrder + 1
+  /**
+   * Drawing geometry multiline to map
+   * @returns The scene object of the geometry, to remove it again with removeGeometry
+   */
+  drawGeometryMultiline(geometryMultiline, thickness: number = 0.2): SceneObject {
+    const positions: vec3[] = geometryMultiline.map((point) =>
+      this.getWorldPositionForGeometryPoint(point)
     );
 
-    this.pinOffsetter.bindScreenTransformToLocation(
-      screenTransform,
-      this.mapLocation.longitude,
-      this.mapLocation.latitude
+    const sceneObject = this.createGeometryObject(
+      makeLineStrip2DMeshWithJoints(positions, thickness),
+      this.lineMaterial
     );
     this.geometryObjects.push(sceneObject);
+    return sceneObject;
   }
 
   /**
-   * Drawing geometry multiline to map
+   * Creating a scene object rendering a geometry mesh on the map, bound to the current map location
    */
-  drawGeometryMultiline(geometryMultiline, thickness: number = 0.2) {
+  private createGeometryObject(mesh: RenderMesh, material: Material): SceneObject {
     const sceneObject = global.scene.createSceneObject("");
     sceneObject.setParent(this.getSceneObject());
     const screenTransform = sceneObject.createComponent(
@@ -968,14 +1233,10 @@ export class MapController extends BaseScriptComponent {
     renderMeshSceneObject.setParent(sceneObject);
     renderMeshSceneObject.layer = this.getSceneObject().layer;
 
-    const positions: vec3[] = geometryMultiline.map((point) =>
-      this.getWorldPositionForGeometryPoint(point)
-    );
-
     addRenderMeshVisual(
       renderMeshSceneObject,
-      makeLineStrip2DMeshWithJoints(positions, thickness),
-      this.lineMaterial,
+      mesh,
+      material,
       this.mapRenderOrder + 1
     );
 
@@ -984,7 +1245,7 @@ export class MapController extends BaseScriptComponent {
       this.mapLocation.longitude,
       this.mapLocation.latitude
     );
-    this.geometryObjects.push(sceneObject);
+    return sceneObject;
   }
 
   /**
@@ -997,12 +1258,219 @@ export class MapController extends BaseScriptComponent {
       );
       sceneObject.destroy();
     });
+    this.geometryObjects = [];
+  }
+
+  /**
+   * Removing one drawn geometry, leaving the other geometry in place
+   */
+  removeGeometry(sceneObject: SceneObject): void {
+    const index = this.geometryObjects.indexOf(sceneObject);
+    if (index === -1) {
+      return;
+    }
+    this.geometryObjects.splice(index, 1);
+    this.pinOffsetter.unbindScreenTransform(
+      sceneObject.getComponent("Component.ScreenTransform")
+    );
+    sceneObject.destroy();
+  }
+
+  //  Accuracy circles
+  // =====
+
+  /**
+   * Setting the horizontal accuracy in meters of a map pin's location, drawn as a circle around the pin.
+   * Null removes the circle
+   */
+  setMapPinAccuracy(pin: MapPin, accuracy: number | null): void {
+    pin.accuracy = accuracy;
+    this.updateAccuracyCircle(pin);
+  }
+
+  /**
+   * Rescaling the accuracy circles of all pins, as their size on the map changes with the zoom level
+   */
+  private updateAccuracyCircles(): void {
+    this.pinSet.forEach((pin: MapPin) => this.updateAccuracyCircle(pin));
+    if (this.userPin !== undefined) {
+      this.updateAccuracyCircle(this.userPin);
+    }
+  }
+
+  /**
+   * Moving the accuracy circle of a pin to its current location and scaling it in meters to its accuracy.
+   * The circle is created the first time it is shown, and hidden while there is nothing to show
+   */
+  private updateAccuracyCircle(pin: MapPin): void {
+    if (
+      !this.mapParameters.showAccuracyCircles ||
+      this.accuracyCircleMaterial === undefined ||
+      this.pinOffsetter === undefined ||
+      !pin.location ||
+      !(pin.accuracy > 0)
+    ) {
+      if (pin.accuracyCircle !== null) {
+        pin.accuracyCircle.enabled = false;
+      }
+      return;
+    }
+
+    if (pin.accuracyCircle === null) {
+      pin.accuracyCircle = this.createGeometryObject(
+        makeCircle2DMesh(vec3.zero(), 1),
+        this.accuracyCircleMaterial
+      );
+    }
+    pin.accuracyCircle.enabled = true;
+
+    // Geometry points are (longitude, latitude)
+    const center = this.getWorldPositionForGeometryPoint(
+      new vec2(pin.location.longitude, pin.location.latitude)
+    );
+    const edgeLocation = fromLocalMeters(
+      pin.location.latitude,
+      pin.location.longitude,
+      new vec2(pin.accuracy, 0)
+    );
+    const edge = this.getWorldPositionForGeometryPoint(
+      new vec2(edgeLocation.longitude, edgeLocation.latitude)
+    );
+
+    this.placeGeometryMesh(pin.accuracyCircle, center, center.distance(edge));
+  }
+
+  private removeAccuracyCircle(pin: MapPin): void {
+    if (pin.accuracyCircle === null) {
+      return;
+    }
+    this.pinOffsetter.unbindScreenTransform(
+      pin.accuracyCircle.getComponent("Component.ScreenTransform")
+    );
+    pin.accuracyCircle.destroy();
+    pin.accuracyCircle = null;
+  }
+
+  /**
+   * Moving and scaling the mesh of a geometry object built around the origin with unit size,
+   * so it ends up at a world position with a world size
+   */
+  private placeGeometryMesh(
+    sceneObject: SceneObject,
+    position: vec3,
+    size: number
+  ): Transform {
+    const transform = sceneObject.getChild(0).getTransform();
+    transform.setWorldPosition(position);
+    transform.setWorldScale(vec3.one().uniformScale(size));
+    return transform;
+  }
+
+  //  Heading cone
+  // =====
+
+  /**
+   * Turning the heading cone on the user pin to the smoothed heading, as wide as the heading uncertainty.
+   * The cone is created once; its mesh is only rebuilt when its width changed noticeably
+   */
+  private updateHeadingCone(): void {
+    if (
+      !this.mapParameters.showHeadingCone ||
+      this.headingConeMaterial === undefined ||
+      this.pinOffsetter === undefined ||
+      this.userLocation === undefined
+    ) {
+      this.removeHeadingCone();
+      return;
+    }
+
+    const heading = this.userHeadingFilter.heading;
+    const halfAngle = clip(
+      2 * this.getHeadingUncertainty(),
+      MIN_HEADING_CONE_HALF_ANGLE,
+      MAX_HEADING_CONE_HALF_ANGLE
+    );
+    if (this.headingCone === null) {
+      this.headingCone = this.createGeometryObject(
+        this.makeHeadingConeMesh(halfAngle),
+        this.headingConeMaterial
+      );
+      this.headingConeHalfAngle = halfAngle;
+    } else if (
+      Math.abs(halfAngle - this.headingConeHalfAngle) >
+      HEADING_CONE_REBUILD_THRESHOLD
+    ) {
+      this.headingCone
+        .getChild(0)
+        .getComponent("Component.RenderMeshVisual").mesh =
+        this.makeHeadingConeMesh(halfAngle);
+      this.headingConeHalfAngle = halfAngle;
+    }
+
+    // Geometry points are (longitude, latitude). In the local space of the grid the map is 2 wide and north is up,
+    // so the tip of the cone follows the rotation of the map
+    const center = this.getLocalPointForGeometryPoint(
+      new vec2(this.userLocation.longitude, this.userLocation.latitude)
+    );
+    const angle = heading * MathUtils.DegToRad;
+    const centerPosition =
+      this.config.gridScreenTransform.localPointToWorldPoint(center);
+    const tipPosition = this.config.gridScreenTransform.localPointToWorldPoint(
+      center.add(
+        new vec2(Math.sin(angle), Math.cos(angle)).uniformScale(
+          2 * this.mapParameters.headingConeLength
+        )
+      )
+    );
+    const direction = tipPosition.sub(centerPosition);
+
+    this.placeGeometryMesh(
+      this.headingCone,
+      centerPosition,
+      direction.length
+    ).setWorldRotation(
+      quat.fromEulerAngles(0, 0, Math.atan2(-direction.x, direction.y))
+    );
+  }
+
+  /**
+   * Making the mesh of the heading cone, a sector of unit length pointing up (+y)
+   */
+  private makeHeadingConeMesh(halfAngle: number): RenderMesh {
+    const arcPositions: vec3[] = [];
+    for (let i = 0; i <= HEADING_CONE_SEGMENTS; i++) {
+      const angle =
+        (-halfAngle + (2 * halfAngle * i) / HEADING_CONE_SEGMENTS) *
+        MathUtils.DegToRad;
+      arcPositions.push(new vec3(Math.sin(angle), Math.cos(angle), 0));
+    }
+    return makeSector2DMesh(vec3.zero(), arcPositions);
+  }
+
+  private removeHeadingCone(): void {
+    if (this.headingCone === null) {
+      return;
+    }
+    this.pinOffsetter.unbindScreenTransform(
+      this.headingCone.getComponent("Component.ScreenTransform")
+    );
+    this.headingCone.destroy();
+    this.headingCone = null;
   }
 
   /**
    * Getting world position for geometry
    */
   getWorldPositionForGeometryPoint(geometryPoint: vec2) {
+    return this.config.gridScreenTransform.localPointToWorldPoint(
+      this.getLocalPointForGeometryPoint(geometryPoint)
+    );
+  }
+
+  /**
+   * Getting the position for geometry in the local space of the grid
+   */
+  private getLocalPointForGeometryPoint(geometryPoint: vec2): vec2 {
     var offset = this.gridView.getOffset();
 
     var initialTileOffset = this.mapModule.longLatToImageRatio(
@@ -1010,11 +1478,10 @@ export class MapController extends BaseScriptComponent {
       geometryPoint.y,
       this.referencePositionLocationAsset
     );
-    var localPoint = new vec2(
+    return new vec2(
       lerp(-1, 1, offset.x + initialTileOffset.x),
       lerp(1, -1, offset.y + initialTileOffset.y)
     );
-    return this.config.gridScreenTransform.localPointToWorldPoint(localPoint);
   }
 
   // Config bindings
@@ -17,6 +17,9 @@ export class MapPin {
   label: Text = undefined;
   placeInfo: PlaceInfo;
   tweenCancelFunction: CancelFunction;
+  accuracy: number | null = null; // horizontal accuracy in meters, drawn as a circle around the pin
+  accuracyCircle: SceneObject | null = null;
+  private hasOwnMaterials: boolean = false;
 
   static makeMapPin(
     prefab: ObjectPrefab,
@@ -162,6 +165,39 @@ export class MapPin {
     }
   }
 
+  /**
+   * Sets the opacity of the pin. The pin gets its own copy of its materials
+   * on first use, so other pins made from the same prefab are not affected.
+   */
+  setOpacity(opacity: number): void {
+    if (!this.hasOwnMaterials) {
+      this.imageComponent.mainMaterial = this.imageComponent.mainMaterial.clone();
+      if (this.outlineImageComponent !== undefined) {
+        this.outlineImageComponent.mainMaterial =
+          this.outlineImageComponent.mainMaterial.clone();
+      }
+      this.hasOwnMaterials = true;
+    }
+
+    const color = this.imageComponent.mainMaterial.mainPass.baseColor;
+    this.imageComponent.mainMaterial.mainPass.baseColor = new vec4(
+      color.x,
+      color.y,
+      color.z,
+      opacity
+    );
+    if (this.outlineImageComponent !== undefined) {
+      const outlineColor =
+        this.outlineImageComponent.mainMaterial.mainPass.baseColor;
+      this.outlineImageComponent.mainMaterial.mainPass.baseColor = new vec4(
+        outlineColor.x,
+        outlineColor.y,
+        outlineColor.z,
+        opacity
+      );
+    }
+  }
+
   enableOutline(enabled: boolean): void {
     if (this.outlineTransform === undefined) {
       return;
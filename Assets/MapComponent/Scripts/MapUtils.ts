@@ -156,6 +156,13 @@ export type MapParameter = {
   enableMapSmoothing: boolean;
   mapPinPrefab: ObjectPrefab;
   mapPinCursorDetectorSize: number;
+  userLocationSourceId: string;
+  orientByCourseWhenMoving: boolean;
+  userHeadingSourceId: string;
+  headingSmoothingTime: number;
+  showAccuracyCircles: boolean;
+  showHeadingCone: boolean;
+  headingConeLength: number;
 };
 
 export type LocationBoundScreenTransform = {
@@ -295,6 +302,33 @@ export function makeCircle2DMesh(position: vec3, radius: number): RenderMesh {
   return builder.getMesh();
 }
 
+/**
+ * Making sector 2D mesh, a triangle fan from the center to the positions along the arc
+ */
+export function makeSector2DMesh(center: vec3, arcPositions: vec3[]): RenderMesh {
+  const builder = new MeshBuilder([{ name: "position", components: 3 }]);
+
+  builder.topology = MeshTopology.Triangles;
+  builder.indexType = MeshIndexType.UInt16;
+
+  const indices: number[] = [];
+  const vertices: number[] = [center.x, center.y, center.z];
+
+  arcPositions.forEach((position, i) => {
+    vertices.push(position.x, position.y, position.z);
+    if (i > 0) {
+      indices.push(0, i, i + 1);
+    }
+  });
+
+  builder.appendIndices(indices);
+  builder.appendVerticesInterleaved(vertices);
+
+  builder.updateMesh();
+
+  return builder.getMesh();
+}
+
 /**
  * Making circle indices vertices pair
  */
@@ -327,6 +361,34 @@ export function makeCircle2DIndicesVerticesPair(
   return [indices, vertices];
 }
 
+/**
+ * Making line mesh of a single segment, without joints
+ */
+export function makeLine2DMesh(
+  start: vec3,
+  end: vec3,
+  thickness: number
+): RenderMesh {
+  const builder = new MeshBuilder([{ name: "position", components: 3 }]);
+
+  builder.topology = MeshTopology.Triangles;
+  builder.indexType = MeshIndexType.UInt16;
+
+  const [indices, vertices] = this.makeLine2DIndicesVerticesPair(
+    start,
+    end,
+    thickness,
+    0
+  );
+
+  builder.appendIndices(indices);
+  builder.appendVerticesInterleaved(vertices);
+
+  builder.updateMesh();
+
+  return builder.getMesh();
+}
+
 /**
  * Making line mesh with joints
  */
@@ -0,0 +1,100 @@
+/**
+ * ClockSync - Estimates the round-trip time and clock offset to a remote device from ping exchanges
+ *
+ * The phone stamps its messages with its own clock, which can be seconds off from the Spectacles clock.
+ * To compare those timestamps with the local time, the offset between both clocks is estimated the way NTP does:
+ * the Lens sends a ping at local time t0, the phone receives it at remote time t1 and replies at remote time t2,
+ * and the reply arrives at local time t3. Then
+ *
+ *   round-trip time = (t3 - t0) - (t2 - t1)
+ *   clock offset    = ((t1 - t0) + (t2 - t3)) / 2
+ *
+ * The offset is exact when the message takes as long in both directions; any asymmetry shows up as an error of
+ * at most half the round-trip time. Exchanges that were delayed (e.g. a Bluetooth retransmission) have a long
+ * round-trip time and the largest possible error, so of the recent exchanges the one with the shortest round-trip
+ * time is used for the estimate.
+ *
+ * Key Features:
+ * - Round-trip time and clock offset per ping exchange
+ * - Minimum round-trip time selection over the recent exchanges
+ * - Conversion of remote timestamps to local time
+ */
+
+import { RingBuffer } from "./RingBuffer";
+
+/** Number of recent ping exchanges the estimate is selected from */
+const SAMPLE_CAPACITY = 8;
+
+/** One ping exchange, all times in milliseconds */
+type ClockSample = {
+  roundTripTime: number;
+  offset: number;                     // Remote clock minus local clock
+};
+
+export class ClockSync {
+
+  private samples: RingBuffer<ClockSample> = new RingBuffer<ClockSample>(SAMPLE_CAPACITY);
+
+  /** The exchange with the shortest round-trip time among the recent ones, null before the first exchange */
+  private best: ClockSample = null;
+
+  /** Round-trip time of the most recent exchange in milliseconds */
+  latestRoundTripTime: number = 0;
+
+  /**
+   * Adds a ping exchange.
+   * @param sendTime Local time the ping was sent (t0), in milliseconds
+   * @param remoteReceiveTime Remote time the ping was received (t1), in milliseconds
+   * @param remoteReplyTime Remote time the reply was sent (t2), in milliseconds
+   * @param receiveTime Local time the reply was received (t3), in milliseconds
+   */
+  addSample(sendTime: number, remoteReceiveTime: number, remoteReplyTime: number, receiveTime: number) {
+    // The remote processing time can't be longer than the whole exchange
+    const roundTripTime = Math.max(0, (receiveTime - sendTime) - (remoteReplyTime - remoteReceiveTime));
+    const offset = ((remoteReceiveTime - sendTime) + (remoteReplyTime - receiveTime)) / 2;
+
+    this.latestRoundTripTime = roundTripTime;
+    this.samples.push({ roundTripTime: roundTripTime, offset: offset });
+    this.best = this.samples.toArray().reduce((best, sample) =>
+      sample.roundTripTime < best.roundTripTime ? sample : best);
+  }
+
+  /** Whether at least one exchange has been added since the last reset */
+  hasEstimate(): boolean {
+    return this.best !== null;
+  }
+
+  /**
+   * Estimated offset of the remote clock from the local clock.
+   * @returns The offset in milliseconds, positive when the remote clock is ahead, 0 without an estimate
+   */
+  getOffset(): number {
+    return this.best !== null ? this.best.offset : 0;
+  }
+
+  /**
+   * Round-trip time of the exchange the offset is estimated from. The offset has an error of at most half of it.
+   * @returns The round-trip time in milliseconds, 0 without an estimate
+   */
+  getRoundTripTime(): number {
+    return this.best !== null ? this.best.roundTripTime : 0;
+  }
+
+  /**
+   * Converts a timestamp of the remote clock to the local clock.
+   * @param remoteTime Remote time in milliseconds
+   * @returns The corresponding local time in milliseconds
+   */
+  toLocalTime(remoteTime: number): number {
+    return remoteTime - this.getOffset();
+  }
+
+  /**
+   * Forgets all exchanges, e.g. when connecting to a different device.
+   */
+  reset() {
+    this.samples.clear();
+    this.best = null;
+    this.latestRoundTripTime = 0;
+  }
+}
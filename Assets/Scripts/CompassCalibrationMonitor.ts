@@ -0,0 +1,284 @@
+/**
+ * CompassCalibrationMonitor - Rates the compass calibration quality and guides the user through a recalibration
+ *
+ * Near steel structures, or after the magnetometer has been magnetized, the compass can be off by tens of degrees
+ * without any warning. This component watches the LocationManager heading continuously and rates it as good, fair
+ * or poor, based on two signals:
+ * - Stability: how much the heading jitters around its smoothed value while the head is still. A disturbed
+ *   magnetometer makes the heading jump around, even when the head doesn't move. Head turns are left out.
+ * - Consistency with the course over ground: while walking, the heading should mostly match the GNSS course.
+ *   A large offset or spread over the recent fixes means the compass points the wrong way.
+ *
+ * When the quality is poor, a guided recalibration asks the user to turn around slowly while moving their head in
+ * a figure-eight, and tracks which compass directions have been covered. This motion gives the platform the data
+ * to recalibrate the magnetometer; the component itself doesn't change the compass. Once all directions are
+ * covered, the collected samples are cleared, so the rating starts over instead of averaging in the old headings.
+ *
+ * Key Features:
+ * - Continuous calibration quality rating (unknown, good, fair, poor) with an event when it changes
+ * - Heading jitter and course offset/spread behind the rating, for display
+ * - Guided figure-eight motion with direction coverage progress and a timeout, restarting the rating
+ * - Prompt texts for the UI
+ */
+
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { angleDifferenceDegrees, circularMeanDegrees, circularStandardDeviationDegrees } from "./GeoMath";
+import { HeadingJitter } from "./HeadingJitter";
+import { LocationManager } from "./LocationManager";
+import { RingBuffer } from "./RingBuffer";
+
+/** Calibration quality rating of the compass */
+export type CompassQuality = 'unknown' | 'good' | 'fair' | 'poor';
+
+/** Minimum number of heading samples before the quality is rated */
+const MIN_HEADING_SAMPLES = 30;
+
+/** Minimum number of course samples before the course consistency counts towards the rating */
+const MIN_COURSE_SAMPLES = 5;
+
+/** Number of compass direction sectors that must be covered during a recalibration */
+const RECALIBRATION_SECTORS = 8;
+
+/** Number of recent course samples kept */
+const COURSE_SAMPLE_CAPACITY = 30;
+
+@component
+export class CompassCalibrationMonitor extends BaseScriptComponent {
+
+  /** LocationManager providing the heading and the course over ground */
+  @input
+  public locationManager: LocationManager;
+
+  /** Number of recent heading updates, taken while the head is still, the jitter is computed over */
+  @input
+  public jitterWindow: number = 90;
+
+  /** Heading jitter above which the quality is fair, in degrees */
+  @input
+  public fairJitter: number = 3;
+
+  /** Heading jitter above which the quality is poor, in degrees */
+  @input
+  public poorJitter: number = 8;
+
+  /** Minimum speed for a course sample, in meters per second. The course is unreliable at lower speeds */
+  @input
+  public minimumSpeed: number = 0.8;
+
+  /** Course offset or spread above which the quality is fair, in degrees */
+  @input
+  public fairCourseError: number = 20;
+
+  /** Course offset or spread above which the quality is poor, in degrees */
+  @input
+  public poorCourseError: number = 45;
+
+  /** Time after which an unfinished recalibration is abandoned, in seconds */
+  @input
+  public recalibrationTimeout: number = 45;
+
+  /** Jitter of the heading while the head is still */
+  private headingJitter: HeadingJitter;
+
+  /** Differences between the heading and the course over ground while moving, in degrees */
+  private courseSamples: RingBuffer<number> = new RingBuffer<number>(COURSE_SAMPLE_CAPACITY);
+
+  /** Time of the previous heading update in seconds, to feed the jitter measurement */
+  private lastHeadingTime: number = 0;
+
+  private quality: CompassQuality = 'unknown';
+
+  private recalibrating: boolean = false;
+  private recalibrationStartTime: number = 0;
+  private coveredSectors: boolean[] = [];
+
+  /** Event to periodically re-rate the quality and time out the recalibration */
+  private evaluateEvent: DelayedCallbackEvent;
+
+  private onQualityChangedEvent = new Event<CompassQuality>();
+  public onQualityChanged = this.onQualityChangedEvent.publicApi();
+
+  /** Invoked with true when a recalibration covered all directions, false when it timed out or was cancelled */
+  private onRecalibrationFinishedEvent = new Event<boolean>();
+  public onRecalibrationFinished = this.onRecalibrationFinishedEvent.publicApi();
+
+  onAwake() {
+    this.headingJitter = new HeadingJitter(this.jitterWindow);
+
+    this.locationManager.onHeadingUpdate.add(() => {
+      this.onHeadingUpdate();
+    });
+    this.locationManager.onFix.add(() => {
+      this.onLocationFix();
+    });
+
+    this.evaluateEvent = this.createEvent('DelayedCallbackEvent');
+    this.evaluateEvent.bind(() => {
+      this.evaluate();
+      this.evaluateEvent.reset(1.0);
+    });
+    this.evaluateEvent.reset(1.0);
+  }
+
+  getQuality(): CompassQuality {
+    return this.quality;
+  }
+
+  /**
+   * Heading jitter over the recent heading updates while the head was still.
+   * @returns The jitter in degrees
+   */
+  getJitter(): number {
+    return this.headingJitter.getJitter();
+  }
+
+  /**
+   * Mean offset of the heading from the course over ground over the recent fixes while moving.
+   * @returns The offset in degrees, positive when the compass points clockwise of the course
+   */
+  getCourseOffset(): number {
+    return circularMeanDegrees(this.courseSamples.toArray());
+  }
+
+  /**
+   * Spread of the heading around the course over ground over the recent fixes while moving.
+   * @returns The circular standard deviation in degrees
+   */
+  getCourseSpread(): number {
+    return circularStandardDeviationDegrees(this.courseSamples.toArray());
+  }
+
+  getCourseSampleCount(): number {
+    return this.courseSamples.size;
+  }
+
+  /**
+   * Starts the guided recalibration. The user turns around slowly while moving their head in a figure-eight,
+   * until all compass directions have been covered or the timeout expires. Only the platform can recalibrate
+   * the compass; covering all directions restarts the rating.
+   */
+  startRecalibration() {
+    this.recalibrating = true;
+    this.recalibrationStartTime = getTime();
+    this.coveredSectors = new Array(RECALIBRATION_SECTORS).fill(false);
+    print('startRecalibration() - Turn around slowly while moving your head in a figure-eight');
+  }
+
+  /**
+   * Stops the guided recalibration without clearing the samples.
+   */
+  cancelRecalibration() {
+    if (!this.recalibrating) {
+      return;
+    }
+    this.finishRecalibration(false);
+  }
+
+  isRecalibrating(): boolean {
+    return this.recalibrating;
+  }
+
+  /**
+   * Fraction of the compass directions covered during the recalibration.
+   * @returns Progress from 0 to 1, 0 when not recalibrating
+   */
+  getRecalibrationProgress(): number {
+    if (!this.recalibrating) {
+      return 0;
+    }
+    return this.coveredSectors.filter((covered) => covered).length / RECALIBRATION_SECTORS;
+  }
+
+  /**
+   * Returns a prompt for the user: the instructions and progress while recalibrating, a suggestion to
+   * recalibrate when the quality is poor, or the rating otherwise.
+   */
+  getPromptText(): string {
+    if (this.recalibrating) {
+      const covered = this.coveredSectors.filter((sector) => sector).length;
+      const timeLeft = Math.max(0, this.recalibrationTimeout - (getTime() - this.recalibrationStartTime));
+      return 'Compass recalibration: turn around slowly while moving your head in a figure-eight, ' +
+        'the rating starts over once all directions are covered' +
+        '\nDirections covered: ' + covered + '/' + RECALIBRATION_SECTORS + ' (' + timeLeft.toFixed(0) + 's left)';
+    }
+
+    switch (this.quality) {
+      case 'poor':
+        return 'Compass: poor - heading may be wrong. Move away from metal and recalibrate';
+      case 'fair':
+        return 'Compass: fair';
+      case 'good':
+        return 'Compass: good';
+      default:
+        return 'Compass: checking...';
+    }
+  }
+
+  private onHeadingUpdate() {
+    const now = getTime();
+    const heading = this.locationManager.getHeading('true');
+
+    this.headingJitter.update(heading, now - this.lastHeadingTime);
+    this.lastHeadingTime = now;
+
+    if (this.recalibrating) {
+      const sector = Math.floor(heading / (360 / RECALIBRATION_SECTORS)) % RECALIBRATION_SECTORS;
+      this.coveredSectors[sector] = true;
+      if (this.coveredSectors.every((covered) => covered)) {
+        this.finishRecalibration(true);
+      }
+    }
+  }
+
+  private onLocationFix() {
+    if (this.recalibrating || !this.locationManager.isMoving() || this.locationManager.speed < this.minimumSpeed) {
+      return;
+    }
+    this.courseSamples.push(angleDifferenceDegrees(this.locationManager.getHeading('true'), this.locationManager.course));
+  }
+
+  /**
+   * Rates the quality from the collected samples, and times out the recalibration.
+   */
+  private evaluate() {
+    if (this.recalibrating && getTime() - this.recalibrationStartTime > this.recalibrationTimeout) {
+      print('evaluate() - Warning: compass recalibration timed out');
+      this.finishRecalibration(false);
+    }
+
+    let quality: CompassQuality = 'unknown';
+    if (this.headingJitter.sampleCount >= MIN_HEADING_SAMPLES) {
+      const jitter = this.getJitter();
+      const courseError = this.courseSamples.size >= MIN_COURSE_SAMPLES ?
+        Math.max(Math.abs(this.getCourseOffset()), this.getCourseSpread()) : 0;
+
+      if (jitter > this.poorJitter || courseError > this.poorCourseError) {
+        quality = 'poor';
+      } else if (jitter > this.fairJitter || courseError > this.fairCourseError) {
+        quality = 'fair';
+      } else {
+        quality = 'good';
+      }
+    }
+
+    if (quality !== this.quality) {
+      this.quality = quality;
+      this.onQualityChangedEvent.invoke(quality);
+    }
+  }
+
+  /**
+   * Ends the recalibration. On success, the samples are cleared so the rating starts over; the compass itself
+   * is not changed.
+   */
+  private finishRecalibration(success: boolean) {
+    this.recalibrating = false;
+    if (success) {
+      this.headingJitter.clear();
+      this.courseSamples.clear();
+      print('finishRecalibration() - All directions covered, the compass quality rating starts over');
+    }
+    this.onRecalibrationFinishedEvent.invoke(success);
+    this.evaluate();
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * ControlPoints - Parsing of surveyed control points for accuracy benchmarking
+ *
+ * Control points are locations whose position is known precisely (e.g. survey markers, or points measured with an
+ * RTK receiver). They can be given as CSV, one point per line:
+ *
+ *   # name, latitude, longitude, altitude
+ *   Marker A, 52.370216, 4.895168, 2.1
+ *   Marker B, 52.370530, 4.896010
+ *
+ * with the altitude in meters being optional, and empty lines and lines starting with '#' ignored. Alternatively
+ * the waypoints of a GPX document are used as control points, with their name and elevation.
+ *
+ * Key Features:
+ * - CSV control point lists with optional altitude and comments
+ * - GPX waypoints as control points
+ * - Invalid lines skipped with a warning
+ */
+
+import { parseGpx } from "./Gpx";
+
+/** A surveyed control point */
+export type ControlPoint = {
+  name: string;
+  latitude: number;                   // Latitude in degrees
+  longitude: number;                  // Longitude in degrees
+  altitude: number | null;            // Altitude in meters, null if not surveyed
+};
+
+/**
+ * Parses a list of control points, as CSV or as the waypoints of a GPX document.
+ * Points without a valid latitude/longitude are skipped with a warning.
+ * @param text The CSV lines or GPX document
+ * @returns The control points in the order of the text
+ */
+export function parseControlPoints(text: string): ControlPoint[] {
+  if (text.trim().charAt(0) === '<') {
+    return parseGpx(text).waypoints.map((waypoint, index) => ({
+      name: waypoint.name !== '' ? waypoint.name : 'Point ' + (index + 1),
+      latitude: waypoint.latitude,
+      longitude: waypoint.longitude,
+      altitude: waypoint.elevation,
+    }));
+  }
+
+  const points: ControlPoint[] = [];
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.charAt(0) === '#') {
+      return;
+    }
+
+    const fields = trimmed.split(',').map((field) => field.trim());
+    const latitude = parseFloat(fields[1]);
+    const longitude = parseFloat(fields[2]);
+    const altitude = fields.length > 3 && fields[3] !== '' ? parseFloat(fields[3]) : null;
+    if (fields.length < 3 || !isFinite(latitude) || !isFinite(longitude) || Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180 || (altitude !== null && !isFinite(altitude))) {
+      print('parseControlPoints() - Warning: skipping invalid control point on line ' + (lineIndex + 1) + ': ' + trimmed);
+      return;
+    }
+
+    points.push({
+      name: fields[0] !== '' ? fields[0] : 'Point ' + (points.length + 1),
+      latitude: latitude,
+      longitude: longitude,
+      altitude: altitude,
+    });
+  });
+  return points;
+}
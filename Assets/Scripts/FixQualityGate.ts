@@ -0,0 +1,146 @@
+/**
+ * FixQualityGate - Rejects implausible location fixes before they reach the UI and the map
+ *
+ * Occasionally a WiFi-based fix places the user hundreds of meters away from where they are. This component
+ * installs itself as the fix filter of the LocationSourceRegistry and checks every fix of every registered
+ * source before it is passed on to subscribers. A fix is rejected when its horizontal accuracy is worse than a
+ * threshold, when it is older than a maximum age, or when reaching it from the previously accepted fix of the
+ * same source would require an impossible speed. Rejections are counted per source and reason, so they can be
+ * shown in the floating details UI.
+ *
+ * Key Features:
+ * - Accuracy threshold, maximum fix age and maximum implied speed checks
+ * - Per-source rejection counters by reason
+ * - Recovers automatically when a source has genuinely moved (e.g. after a bad first fix)
+ */
+
+import { getPhysicalDistanceBetweenLocations } from "../MapComponent/Scripts/MapUtils";
+import { LocationFix, locationFixToGeoPosition } from "./LocationSource";
+import { FixFilter, LocationSourceRegistry } from "./LocationSourceRegistry";
+
+/** Number of consecutive speed rejections after which the gate accepts the new position as the truth */
+const CONSECUTIVE_SPEED_REJECTIONS_BEFORE_RESET = 5;
+
+/** Minimum time between fixes used for the speed check, in seconds, to avoid dividing by (near) zero */
+const MIN_SPEED_CHECK_INTERVAL = 1;
+
+/** Counters of accepted and rejected fixes for one source */
+export type FixRejectionCounts = {
+  accepted: number;                   // Fixes that passed all checks
+  accuracy: number;                   // Rejected because the horizontal accuracy was worse than the threshold
+  stale: number;                      // Rejected because the fix was older than the maximum age
+  speed: number;                      // Rejected because the fix implied an impossible speed
+};
+
+@component
+export class FixQualityGate extends BaseScriptComponent implements FixFilter {
+
+  /** Fixes with a horizontal accuracy worse than this are rejected, in meters */
+  @input
+  public maxHorizontalAccuracy: number = 200;
+
+  /** Fixes older than this are rejected, in seconds */
+  @input
+  public maxFixAge: number = 30;
+
+  /** Fixes implying a speed above this since the previous accepted fix are rejected, in meters per second */
+  @input
+  public maxSpeed: number = 50;
+
+  /** Last accepted fix per source id, used for the speed check */
+  private lastAcceptedFixes: Map<string, LocationFix> = new Map();
+
+  /** Number of speed rejections in a row per source id */
+  private consecutiveSpeedRejections: Map<string, number> = new Map();
+
+  /** Counters per source id */
+  private rejectionCounts: Map<string, FixRejectionCounts> = new Map();
+
+  onAwake() {
+    LocationSourceRegistry.getInstance().setFixFilter(this);
+  }
+
+  /**
+   * Checks a fix against the accuracy, age and speed limits and updates the counters.
+   * @param fix The fix to check
+   * @returns true when the fix passed all checks
+   */
+  accept(fix: LocationFix): boolean {
+    const counts = this.getRejectionCounts(fix.sourceId);
+
+    if (fix.horizontalAccuracy > this.maxHorizontalAccuracy) {
+      counts.accuracy++;
+      return false;
+    }
+
+    const ageSeconds = (Date.now() - fix.timestamp) / 1000;
+    if (ageSeconds > this.maxFixAge) {
+      counts.stale++;
+      return false;
+    }
+
+    if (this.impliesImpossibleSpeed(fix)) {
+      const rejectionsInARow = (this.consecutiveSpeedRejections.get(fix.sourceId) || 0) + 1;
+      if (rejectionsInARow < CONSECUTIVE_SPEED_REJECTIONS_BEFORE_RESET) {
+        this.consecutiveSpeedRejections.set(fix.sourceId, rejectionsInARow);
+        counts.speed++;
+        return false;
+      }
+      // The source keeps reporting the new position, so the previously accepted fix was most likely the outlier.
+      print('accept() - Accepting new position for ' + fix.sourceId + ' after ' + rejectionsInARow + ' speed rejections in a row');
+    }
+
+    this.consecutiveSpeedRejections.set(fix.sourceId, 0);
+    this.lastAcceptedFixes.set(fix.sourceId, fix);
+    counts.accepted++;
+    return true;
+  }
+
+  /**
+   * Returns the counters for a source, creating them on first use.
+   * @param sourceId Id of the source
+   * @returns The counters of the source
+   */
+  getRejectionCounts(sourceId: string): FixRejectionCounts {
+    if (!this.rejectionCounts.has(sourceId)) {
+      this.rejectionCounts.set(sourceId, { accepted: 0, accuracy: 0, stale: 0, speed: 0 });
+    }
+    return this.rejectionCounts.get(sourceId);
+  }
+
+  /**
+   * Returns a one-line summary of the rejection counters of a source for display in the UI.
+   * @param sourceId Id of the source
+   * @returns Summary text, e.g. 'Rejected: 2 (speed 1, accuracy 1, stale 0)'
+   */
+  getRejectionSummary(sourceId: string): string {
+    const counts = this.getRejectionCounts(sourceId);
+    const total = counts.speed + counts.accuracy + counts.stale;
+    return 'Rejected: ' + total +
+      ' (speed ' + counts.speed +
+      ', accuracy ' + counts.accuracy +
+      ', stale ' + counts.stale + ')';
+  }
+
+  /**
+   * Whether moving from the last accepted fix of the same source to this fix would require
+   * a speed above maxSpeed. The reported accuracy of the new fix is given the benefit of the doubt.
+   * @param fix The fix to check
+   * @returns true when the implied speed is impossible
+   */
+  private impliesImpossibleSpeed(fix: LocationFix): boolean {
+    const lastAcceptedFix = this.lastAcceptedFixes.get(fix.sourceId);
+    if (!lastAcceptedFix) {
+      return false;
+    }
+
+    const distance = getPhysicalDistanceBetweenLocations(
+      locationFixToGeoPosition(lastAcceptedFix),
+      locationFixToGeoPosition(fix)
+    );
+    const seconds = Math.max(MIN_SPEED_CHECK_INTERVAL, (fix.timestamp - lastAcceptedFix.timestamp) / 1000);
+    const impliedSpeed = Math.max(0, distance - fix.horizontalAccuracy) / seconds;
+
+    return impliedSpeed > this.maxSpeed;
+  }
+}
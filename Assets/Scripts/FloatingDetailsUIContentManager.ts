@@ -3,24 +3,45 @@
  * 
  * This component manages all content updates for the floating details UI, including mobile kit
  * location information, location manager data, button states, and map pin visualization. It 
- * synchronizes the UI display with location data from both MobileKitManager and LocationManager, 
+ * subscribes to location sources by name through the LocationSourceRegistry (by default the
+ * LocationManager and the MobileKitManager) and updates the UI whenever one of them produces a new fix,
  * providing real-time feedback about GPS coordinates, accuracy, altitude, and heading. The 
  * component handles different states including editor mode, disabled mobile kit, and active 
  * location tracking.
  * 
  * Key Features:
- * - Real-time location text updates from both MobileKitManager and LocationManager
+ * - Real-time location text updates from any registered location source (by default LocationManager and MobileKitManager)
  * - Dynamic button state management based on mobile kit availability
  * - Map pin visualization that updates with mobile kit location
  * - Editor compatibility with appropriate fallback messages
  * - State-aware UI updates (editor/disabled/no data/active)
+ * - Rejected fix counters from the FixQualityGate, if one is assigned
+ * - External GNSS receiver status (fix quality, satellites, HDOP, course) when Mobile Kit relays NMEA
+ * - Age of the displayed fixes, with stale data greyed out and the mobile kit pin faded
+ * - Active LocationManager profile and update interval
+ * - Speed, course over ground, distance travelled and elapsed time of the LocationManager
+ * - Heading relative to true and magnetic north, with the magnetic declination at the current position
+ * - Compass calibration quality and the progress of a guided recalibration, if a CompassCalibrationMonitor is assigned
+ * - Mobile Kit session state (connecting, connected, reconnecting, failed), with a manual reconnect after failure
+ * - Mobile Kit payload version and the number of rejected messages
+ * - Phone heading, speed, course and barometer readings when reported, and whether the map uses the phone heading
+ * - Mobile Kit fix latency statistics, round-trip time and phone clock offset, with a warning when the phone data lags
+ * - Ground truth survey progress and accuracy per source, if a GroundTruthSurvey is assigned
+ * - Distance and altitude difference between two location sources, if a SourceComparison is assigned
  */
 
 import { RectangleButton } from "SpectaclesUIKit.lspkg/Scripts/Components/Button/RectangleButton";
 import { MapComponent } from "../MapComponent/Scripts/MapComponent";
 import { MapPin } from "../MapComponent/Scripts/MapPin";
+import { CompassCalibrationMonitor } from "./CompassCalibrationMonitor";
+import { FixQualityGate } from "./FixQualityGate";
+import { GroundTruthSurvey } from "./GroundTruthSurvey";
 import { LocationManager } from "./LocationManager";
+import { formatDuration, getFixAge, isFixStale, LocationFix } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
 import { MobileKitManager } from "./MobileKitManager";
+import { getFixQualityName } from "./Nmea";
+import { SourceComparison } from "./SourceComparison";
 
 @component
 export class FloatingDetailsUIContentManager extends BaseScriptComponent {
@@ -29,9 +50,18 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
   @input 
   public mapComponent: MapComponent;
 
-  /** Reference to the LocationManager to get location data */
+  /** Reference to the LocationManager to get heading data */
   @input
   public locationManager: LocationManager;
+  /** Id of the location source shown in the location data text (see LocationSourceRegistry) */
+  @input
+  public locationSourceId: string = 'spectacles';
+  /**
+   * Fixes of the location source older than this are shown as stale, in seconds. For the LocationManager's own
+   * fixes this is a margin on top of its current update interval, so a slow location profile doesn't look stale.
+   */
+  @input
+  public locationStaleFixAge: number = 5;
   /** Text component to display the location data (source, coordinates, accuracy, altitude, heading) */
   @input
   public locationDataText!: Text
@@ -42,6 +72,18 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
   /** Reference to the MobileKitManager to get mobile kit location data */
   @input
   public mobileKitManager: MobileKitManager;  
+  /** Id of the location source shown in the mobile kit text and pin (see LocationSourceRegistry) */
+  @input
+  public mobileKitSourceId: string = 'mobile-kit';
+  /** Fixes of the mobile kit source older than this are shown as stale, in seconds */
+  @input
+  public mobileKitStaleFixAge: number = 5;
+  /** Opacity of the mobile kit map pin while its fix is stale */
+  @input
+  public staleMobileKitPinOpacity: number = 0.4;
+  /** 95th percentile of the mobile kit fix latency above which the phone data is marked as lagging, in milliseconds */
+  @input
+  public mobileKitLatencyWarning: number = 1000;
   /** Button component for starting the mobile kit */
   @input
   public startMobileKitButton: RectangleButton;
@@ -52,16 +94,97 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
   @input
   public mobileKitText!: Text
 
+  /** Optional FixQualityGate, used to show the number of rejected fixes per source */
+  @input
+  @allowUndefined
+  public fixQualityGate: FixQualityGate;
+
+  /** Optional CompassCalibrationMonitor, used to show the compass quality and guide a recalibration */
+  @input
+  @allowUndefined
+  public compassCalibrationMonitor: CompassCalibrationMonitor;
+  /** Text component to display the compass quality and the recalibration instructions */
+  @input
+  @allowUndefined
+  public compassCalibrationText: Text;
+
+  /** Optional GroundTruthSurvey, used to show the current control point and the accuracy per source */
+  @input
+  @allowUndefined
+  public groundTruthSurvey: GroundTruthSurvey;
+
+  /** Optional SourceComparison, used to show how far apart the compared location sources are */
+  @input
+  @allowUndefined
+  public sourceComparison: SourceComparison;
+
   /** Reference to the map pin showing the mobile kit location */
   private mobileKitPin: MapPin = null;
+  /** Fix the mobile kit pin was created for, to only recreate the pin when the fix changes */
+  private mobileKitPinFix: LocationFix = null;
+  /** Whether the mobile kit pin is currently faded because its fix is stale */
+  private mobileKitPinFaded: boolean = false;
+
+  /** Original colors of the texts, restored when the data is fresh again */
+  private locationDataTextColor: vec4;
+  private mobileKitTextColor: vec4;
+
+  /** Event to periodically refresh the content, so fix ages stay current without new fixes */
+  private refreshEvent: DelayedCallbackEvent;
+
+  /** Most recent fix of the location source shown in the location data text */
+  private locationFix: LocationFix = null;
+  /** Most recent fix of the location source shown in the mobile kit text and pin */
+  private mobileKitFix: LocationFix = null;
+
+  /** Whether the map user pin is oriented by the phone heading instead of the Spectacles compass */
+  private mapUsesPhoneHeading: boolean = false;
 
   onAwake() {
     this.createEvent("OnStartEvent").bind(() => {
       this.onStart();
     });
+
+    const registry = LocationSourceRegistry.getInstance();
+    registry.subscribe(this.locationSourceId, (fix) => {
+      this.locationFix = fix;
+      this.updateContent();
+    });
+    registry.subscribe(this.mobileKitSourceId, (fix) => {
+      this.mobileKitFix = fix;
+      this.updateContent();
+    });
+
+    if (this.locationManager) {
+      this.locationManager.onHeadingUpdate.add(() => this.updateLocationText());
+    }
+
+    if (this.mobileKitManager) {
+      this.mobileKitManager.onSessionStateChanged.add(() => this.updateContent());
+    }
+
+    if (this.compassCalibrationMonitor) {
+      this.compassCalibrationMonitor.onQualityChanged.add(() => this.updateCompassCalibration());
+      this.compassCalibrationMonitor.onRecalibrationFinished.add(() => this.updateCompassCalibration());
+    }
+
+    if (this.locationDataText) {
+      this.locationDataTextColor = this.locationDataText.textFill.color;
+    }
+    this.mobileKitTextColor = this.mobileKitText.textFill.color;
+
+    this.refreshEvent = this.createEvent('DelayedCallbackEvent');
+    this.refreshEvent.bind(() => {
+      this.updateContent();
+      this.refreshEvent.reset(1.0);
+    });
+    this.refreshEvent.reset(1.0);
   }
 
   onStart() {
+    if (this.mapComponent) {
+      this.mapUsesPhoneHeading = this.mapComponent.userHeadingSourceId === this.mobileKitSourceId;
+    }
     this.updateContent();
   }
 
@@ -69,33 +192,279 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
     this.updateLocationText();
     this.updateMobileKitText();
     this.updateMobileKitPin();
+    this.updateCompassCalibration();
   }
 
   /**
    * Updates the location text with current location data.
-   * Displays source, latitude, longitude, accuracy, altitude, and heading information.
+   * Displays source, age, latitude, longitude, accuracy, altitude, and heading information.
+   * The text is greyed out when the fix is stale.
    */
   private updateLocationText() {
     if (!this.locationManager || !this.locationDataText) {
       return;
     }
 
+    if (this.locationFix === null) {
+      this.locationDataText.textFill.color = this.locationDataTextColor;
+      this.locationDataText.text = 
+        'Source: ' + this.locationSourceId + 
+        '\nNo location data' +
+        '\nHeading: ' + this.locationManager.heading.toFixed(0) + '° (' + this.locationManager.platformHeadingReference + ')' +
+        this.getSurveyText() +
+        this.getComparisonText();
+      return;
+    }
+
+    const stale = isFixStale(this.locationFix, this.getLocationStaleFixAge());
+    this.locationDataText.textFill.color = stale ? new vec4(0.5, 0.5, 0.5, 1) : this.locationDataTextColor; // Light grey color when stale
     this.locationDataText.text = 
-      'Source: ' + this.locationManager.locationSource + 
-      '\nLatitude: ' + this.locationManager.latitude.toFixed(6) + 
-      '\nLongitude: ' + this.locationManager.longitude.toFixed(6) + 
-      '\nHorizontal Accuracy: ' + this.locationManager.horizontalAccuracy.toFixed(0) + 'm' +
-      '\nAltitude: ' + this.locationManager.altitude.toFixed(0) + 'm' +
-      '\nVertical Accuracy: ' + this.locationManager.verticalAccuracy.toFixed(0) + 'm' +
-      '\nHeading: ' + this.locationManager.heading.toFixed(0) + '°';
+      'Source: ' + (this.locationFix.locationSource !== '' ? this.locationFix.locationSource : this.locationFix.sourceId) + 
+      '\n' + this.getAgeText(this.locationFix, stale) +
+      '\nLatitude: ' + this.locationFix.latitude.toFixed(6) + 
+      '\nLongitude: ' + this.locationFix.longitude.toFixed(6) + 
+      '\nHorizontal Accuracy: ' + this.locationFix.horizontalAccuracy.toFixed(0) + 'm' +
+      '\nAltitude: ' + this.locationFix.altitude.toFixed(0) + 'm' +
+      '\nVertical Accuracy: ' + this.locationFix.verticalAccuracy.toFixed(0) + 'm' +
+      this.getHeadingText() +
+      this.getProfileText() +
+      this.getMotionText() +
+      this.getKalmanFilterText() +
+      this.getRejectionText(this.locationSourceId) +
+      this.getSurveyText() +
+      this.getComparisonText();
+  }
+
+  /**
+   * Returns the age line for a fix.
+   * @param fix The fix
+   * @param stale Whether the fix is stale
+   * @returns The age text, e.g. 'Age: 3s' or 'Age: 2m 5s (stale)'
+   */
+  private getAgeText(fix: LocationFix, stale: boolean): string {
+    return 'Age: ' + formatDuration(getFixAge(fix)) + (stale ? ' (stale)' : '');
+  }
+
+  /**
+   * Returns the heading relative to true and magnetic north, and the magnetic declination.
+   * @returns The text to append to the location text
+   */
+  private getHeadingText(): string {
+    const declination = this.locationManager.magneticDeclination;
+    return '\nHeading: ' + this.locationManager.getHeading('true').toFixed(0) + '°T / ' +
+      this.locationManager.getHeading('magnetic').toFixed(0) + '°M' +
+      '\nDeclination: ' + (declination >= 0 ? '+' : '') + declination.toFixed(1) + '°';
+  }
+
+  /**
+   * Returns the active location profile and update interval, when the displayed source is the LocationManager.
+   * @returns The text to append to the location text, empty if not applicable
+   */
+  private getProfileText(): string {
+    if (this.locationFix.sourceId !== this.locationManager.sourceId) {
+      return '';
+    }
+
+    return '\nProfile: ' + this.locationManager.getActiveProfile().name +
+      (this.locationManager.adaptivePolling ? ' (adaptive)' : '') +
+      ', every ' + this.locationManager.getCurrentInterval().toFixed(0) + 's';
+  }
+
+  /**
+   * Returns the speed, course over ground, distance travelled and elapsed time, when the displayed source
+   * is the LocationManager.
+   * @returns The text to append to the location text, empty if not applicable
+   */
+  private getMotionText(): string {
+    if (this.locationFix.sourceId !== this.locationManager.sourceId) {
+      return '';
+    }
+
+    return '\nSpeed: ' + this.locationManager.speed.toFixed(1) + 'm/s' +
+      '\nCourse: ' + (this.locationManager.isMoving() ? this.locationManager.course.toFixed(0) + '°' : '-') +
+      '\nDistance: ' + this.locationManager.distanceTravelled.toFixed(0) + 'm' +
+      '\nElapsed: ' + formatDuration(this.locationManager.elapsedTime);
+  }
+
+  /**
+   * Returns the raw (unfiltered) values for comparison, when the
+   * displayed source is the LocationManager with its Kalman filter enabled.
+   * @returns The text to append to the location text, empty if not applicable
+   */
+  private getKalmanFilterText(): string {
+    if (this.locationFix.sourceId !== this.locationManager.sourceId || !this.locationManager.useKalmanFilter) {
+      return '';
+    }
+
+    return '\nRaw Latitude: ' + this.locationManager.latitude.toFixed(6) + 
+      '\nRaw Longitude: ' + this.locationManager.longitude.toFixed(6) + 
+      '\nRaw Horizontal Accuracy: ' + this.locationManager.horizontalAccuracy.toFixed(0) + 'm';
+  }
+
+  /**
+   * Returns the rejected fix counters of a source, if a FixQualityGate is assigned.
+   * @param sourceId Id of the source
+   * @returns The text to append, empty if no FixQualityGate is assigned
+   */
+  private getRejectionText(sourceId: string): string {
+    if (!this.fixQualityGate) {
+      return '';
+    }
+
+    return '\n' + this.fixQualityGate.getRejectionSummary(sourceId);
+  }
+
+  /**
+   * Returns the current control point of the survey, its capture progress or results, and the CEP50/CEP95 per
+   * source, if a GroundTruthSurvey is assigned.
+   * @returns The text to append to the location text, empty if no GroundTruthSurvey is assigned
+   */
+  private getSurveyText(): string {
+    if (!this.groundTruthSurvey) {
+      return '';
+    }
+
+    return '\n' + this.groundTruthSurvey.getReportText();
+  }
+
+  /**
+   * Returns the latest distance between the compared location sources and its statistics, if a SourceComparison
+   * is assigned.
+   * @returns The text to append to the location text, empty if no SourceComparison is assigned
+   */
+  private getComparisonText(): string {
+    if (!this.sourceComparison) {
+      return '';
+    }
+
+    return '\n' + this.sourceComparison.getReportText();
+  }
+
+  /**
+   * Returns the state of the Mobile Kit session, including the reconnection countdown while disconnected.
+   * @returns The session text, e.g. 'Session: reconnecting in 4s (attempt 3)'
+   */
+  private getSessionStateText(): string {
+    switch (this.mobileKitManager.getSessionState()) {
+      case 'connecting':
+        return 'Session: connecting...';
+      case 'connected':
+        return 'Session: connected' + (this.mobileKitFix === null ? ', no Mobile Kit data yet' : '');
+      case 'disconnected':
+        return 'Session: disconnected, reconnecting in ' + this.mobileKitManager.getTimeUntilReconnect().toFixed(0) + 's' +
+          ' (attempt ' + this.mobileKitManager.getReconnectAttempt() + ')';
+      case 'failed':
+        return 'Session: connection failed, press Start Mobile Kit to retry';
+      default:
+        return 'Session: not started';
+    }
+  }
+
+  /**
+   * Returns the version of the last location payload, and the number of rejected messages with the last error.
+   * @returns The text to append to the mobile kit text
+   */
+  private getPayloadText(): string {
+    let text = '\nPayload: v' + this.mobileKitManager.payloadVersion;
+
+    const rejected = this.mobileKitManager.getRejectedMessageCount();
+    if (rejected > 0) {
+      text += '\nRejected messages: ' + rejected + ' (' + this.mobileKitManager.getLastPayloadError() + ')';
+    }
+    return text;
+  }
+
+  /**
+   * Returns the latency of the mobile kit fixes (last, mean, median and 95th percentile), the round-trip time and
+   * the phone clock offset, with a warning when the 95th percentile is above mobileKitLatencyWarning.
+   * @returns The text to append to the mobile kit text, e.g. '\nLatency: 240ms (mean 210, median 200, p95 450ms)'
+   */
+  private getLatencyText(): string {
+    const manager = this.mobileKitManager;
+    let text = '';
+
+    const latency = manager.getLastFixLatency();
+    if (latency !== null) {
+      const statistics = manager.getLatencyStatistics();
+      text += '\nLatency: ' + latency.toFixed(0) + 'ms' +
+        ' (mean ' + statistics.mean.toFixed(0) + ', median ' + statistics.median.toFixed(0) + ', p95 ' + statistics.p95.toFixed(0) + 'ms)';
+      if (statistics.p95 > this.mobileKitLatencyWarning) {
+        text += '\nWarning: phone data is lagging';
+      }
+    }
+
+    const roundTripTime = manager.getRoundTripTime();
+    if (roundTripTime !== null) {
+      const offset = manager.getClockOffset();
+      text += '\nRound trip: ' + manager.getLatestRoundTripTime().toFixed(0) + 'ms (best ' + roundTripTime.toFixed(0) + 'ms)' +
+        ', clock offset ' + (offset >= 0 ? '+' : '') + offset.toFixed(0) + 'ms';
+    }
+    return text;
+  }
+
+  /**
+   * Returns the phone heading, speed, course and barometer readings, each only when the phone reported it.
+   * @returns The text to append to the mobile kit text, e.g. '\nPhone heading: 87°T (±5°, map heading)'
+   */
+  private getPhoneSensorText(): string {
+    const manager = this.mobileKitManager;
+    let text = '';
+
+    if (manager.heading !== null) {
+      const details: string[] = [];
+      if (manager.headingAccuracy !== null) {
+        details.push('±' + manager.headingAccuracy.toFixed(0) + '°');
+      }
+      if (this.mapUsesPhoneHeading) {
+        details.push('map heading');
+      }
+      text += '\nPhone heading: ' + manager.heading.toFixed(0) + '°T' + (details.length > 0 ? ' (' + details.join(', ') + ')' : '');
+    }
+
+    if (manager.speed !== null) {
+      text += '\nPhone speed: ' + manager.speed.toFixed(1) + 'm/s' +
+        (manager.phoneCourse !== null ? ', course ' + manager.phoneCourse.toFixed(0) + '°' : '');
+    }
+
+    if (manager.pressure !== null) {
+      text += '\nBarometer: ' + manager.pressure.toFixed(2) + 'kPa';
+      if (manager.barometricAltitude !== null) {
+        text += ', altitude ' + manager.barometricAltitude.toFixed(0) + 'm' +
+          (manager.barometricAltitudeAccuracy !== null ? ' (±' + manager.barometricAltitudeAccuracy.toFixed(0) + 'm)' : '');
+      }
+      if (manager.relativeAltitude !== null) {
+        text += ', change ' + (manager.relativeAltitude >= 0 ? '+' : '') + manager.relativeAltitude.toFixed(1) + 'm';
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Returns the status of the external GNSS receiver, when the mobile kit fix comes from NMEA sentences.
+   * @returns The text to append to the mobile kit text, empty if not applicable
+   */
+  private getNmeaText(): string {
+    if (!this.mobileKitManager || !this.mobileKitManager.hasNmeaData ||
+      this.mobileKitFix.sourceId !== this.mobileKitManager.sourceId) {
+      return '';
+    }
+
+    return '\nFix Quality: ' + getFixQualityName(this.mobileKitManager.fixQuality) +
+      '\nSatellites: ' + this.mobileKitManager.satelliteCount + ' used, ' + this.mobileKitManager.satellitesInView + ' in view' +
+      '\nHDOP: ' + this.mobileKitManager.hdop.toFixed(1) +
+      '\nCourse: ' + this.mobileKitManager.nmeaCourse.toFixed(0) + '°' +
+      '\nRejected NMEA: ' + this.mobileKitManager.getRejectedNmeaSentenceCount();
   }
 
   /**
    * Updates the mobile kit text and button states based on the current mobile kit status.
    * Handles different states: editor mode, disabled mobile kit, no data available, and active tracking.
    * Also updates button colors and manages map pin visibility accordingly.
+   * The mobile kit data is greyed out when its fix is stale.
    */
   private updateMobileKitText() {
+    this.mobileKitText.textFill.color = this.mobileKitTextColor;
+
     if (global.deviceInfoSystem.isEditor()) {
       this.mobileKitText.text = "Mobile Kit unavailable in editor";
       this.startMobileKitButton.inactive = true;
@@ -106,18 +475,33 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
       this.startMobileKitButton.inactive = false;
       this.startMobileKitButtonText.textFill.color = new vec4(1, 1, 1, 1); // White color
       this.removeMobileKitPin();
-    } else if (this.mobileKitManager.latitude === 0 && this.mobileKitManager.longitude === 0) {
-      this.mobileKitText.text = "No Mobile Kit data";
+    } else if (this.mobileKitManager.getSessionState() === 'failed') {
+      // Offer the button again to retry the connection
+      this.mobileKitText.text = this.getSessionStateText();
+      this.startMobileKitButton.inactive = false;
+      this.startMobileKitButtonText.textFill.color = new vec4(1, 1, 1, 1); // White color
+      this.removeMobileKitPin();
+    } else if (this.mobileKitFix === null) {
+      this.mobileKitText.text = this.getSessionStateText();
       this.startMobileKitButton.inactive = true;
       this.startMobileKitButtonText.textFill.color = new vec4(0.5, 0.5, 0.5, 1); // Light grey color
       this.removeMobileKitPin();
     } else {
+      const stale = isFixStale(this.mobileKitFix, this.mobileKitStaleFixAge);
+      this.mobileKitText.textFill.color = stale ? new vec4(0.5, 0.5, 0.5, 1) : this.mobileKitTextColor; // Light grey color when stale
       this.mobileKitText.text = 
-        'Latitude: ' + this.mobileKitManager.latitude.toFixed(6) + 
-        '\nLongitude: ' + this.mobileKitManager.longitude.toFixed(6) + 
-        '\nHorizontal Accuracy: ' + this.mobileKitManager.horizontalAccuracy.toFixed(0) + 'm' +
-        '\nAltitude: ' + this.mobileKitManager.altitude.toFixed(0) + 'm' +
-        '\nVertical Accuracy: ' + this.mobileKitManager.verticalAccuracy.toFixed(0) + 'm';
+        this.getSessionStateText() +
+        '\n' + this.getAgeText(this.mobileKitFix, stale) +
+        '\nLatitude: ' + this.mobileKitFix.latitude.toFixed(6) + 
+        '\nLongitude: ' + this.mobileKitFix.longitude.toFixed(6) + 
+        '\nHorizontal Accuracy: ' + this.mobileKitFix.horizontalAccuracy.toFixed(0) + 'm' +
+        '\nAltitude: ' + this.mobileKitFix.altitude.toFixed(0) + 'm' +
+        '\nVertical Accuracy: ' + this.mobileKitFix.verticalAccuracy.toFixed(0) + 'm' +
+        this.getPayloadText() +
+        this.getLatencyText() +
+        this.getPhoneSensorText() +
+        this.getNmeaText() +
+        this.getRejectionText(this.mobileKitSourceId);
       this.startMobileKitButton.inactive = false;
       this.startMobileKitButtonText.textFill.color = new vec4(0.5, 0.5, 0.5, 1); // Light grey color
       this.updateMobileKitPin();
@@ -126,7 +510,8 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
 
   /**
    * Updates the map pin to show the current mobile kit location.
-   * If a pin already exists, it removes it and creates a new one at the updated location.
+   * If a pin already exists for an older fix, it removes it and creates a new one at the updated location.
+   * The pin is faded while the fix is stale, and circled by the horizontal accuracy of the fix.
    */
   private updateMobileKitPin() {
     if (!this.mapComponent) {
@@ -137,17 +522,25 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
       this.removeMobileKitPin();
     } else if (!this.mobileKitManagerSceneObject.enabled) {
       this.removeMobileKitPin();
-    } else if (this.mobileKitManager.latitude === 0 && this.mobileKitManager.longitude === 0) {
+    } else if (this.mobileKitFix === null) {
       this.removeMobileKitPin();
     } else {
-      // Remove existing pin if it exists
-      if (this.mobileKitPin !== null) {
-        this.mapComponent.removeMapPin(this.mobileKitPin);
-        this.mobileKitPin = null;
+      if (this.mobileKitPin === null || this.mobileKitPinFix !== this.mobileKitFix) {
+        // Remove existing pin if it exists
+        this.removeMobileKitPin();
+
+        // Create a new pin at the current location
+        this.mobileKitPin = this.mapComponent.createMapPin(this.mobileKitFix.longitude, this.mobileKitFix.latitude);
+        this.mapComponent.setMapPinAccuracy(this.mobileKitPin, this.mobileKitFix.horizontalAccuracy);
+        this.mobileKitPinFix = this.mobileKitFix;
       }
 
-      // Create a new pin at the current location
-      this.mobileKitPin = this.mapComponent.createMapPin(this.mobileKitManager.longitude, this.mobileKitManager.latitude);
+      // Fade the pin while the fix is stale
+      const stale = isFixStale(this.mobileKitFix, this.mobileKitStaleFixAge);
+      if (stale !== this.mobileKitPinFaded) {
+        this.mobileKitPin.setOpacity(stale ? this.staleMobileKitPinOpacity : 1);
+        this.mobileKitPinFaded = stale;
+      }
     }
   }
 
@@ -158,14 +551,47 @@ export class FloatingDetailsUIContentManager extends BaseScriptComponent {
     if (this.mobileKitPin !== null && this.mapComponent) {
       this.mapComponent.removeMapPin(this.mobileKitPin);
       this.mobileKitPin = null;
+      this.mobileKitPinFix = null;
+      this.mobileKitPinFaded = false;
+    }
+  }
+
+  /**
+   * Age in seconds above which a fix of the location source is stale: the LocationManager's current update
+   * interval plus the stale margin for its own fixes, the stale threshold for any other source.
+   */
+  private getLocationStaleFixAge(): number {
+    if (this.locationManager && this.locationSourceId === this.locationManager.sourceId) {
+      return this.locationManager.getCurrentInterval() + this.locationStaleFixAge;
+    }
+    return this.locationStaleFixAge;
+  }
+
+  /**
+   * Updates the compass calibration text.
+   */
+  private updateCompassCalibration() {
+    if (!this.compassCalibrationMonitor) {
+      return;
+    }
+
+    if (this.compassCalibrationText) {
+      this.compassCalibrationText.text = this.compassCalibrationMonitor.getPromptText() +
+        '\nJitter: ' + this.compassCalibrationMonitor.getJitter().toFixed(1) + '°' +
+        (this.compassCalibrationMonitor.getCourseSampleCount() > 0 ?
+          ', vs course: ' + this.compassCalibrationMonitor.getCourseOffset().toFixed(0) + '° ± ' +
+          this.compassCalibrationMonitor.getCourseSpread().toFixed(0) + '°' : '');
     }
   }
 
   /**
    * Callback function for the start mobile kit button press event.
-   * Enables the mobile kit scene object and updates the content.
+   * Enables the mobile kit scene object and updates the content, or retries the connection after it failed.
    */
   private startMobileKitButtonPressed() {
+    if (this.mobileKitManagerSceneObject.enabled && this.mobileKitManager.getSessionState() === 'failed') {
+      this.mobileKitManager.reconnect();
+    }
     this.mobileKitManagerSceneObject.enabled = true;
     this.updateContent();
   }
@@ -0,0 +1,184 @@
+/**
+ * FusedLocationSource - Combines fixes from several location sources into a single best estimate
+ *
+ * This component subscribes to a set of location sources through the LocationSourceRegistry (by default
+ * the on-device GNSS from LocationManager and the phone location from MobileKitManager) and combines their
+ * latest fixes into one position. Each fix is weighted by the inverse of its variance, where the reported
+ * horizontalAccuracy is inflated by the age of the fix, so a fresh, accurate fix dominates and an old fix
+ * gradually loses influence until it is dropped entirely. The result is published as a LocationFix with its
+ * own uncertainty and registered in the LocationSourceRegistry as 'fused', so it can be selected to drive
+ * the user pin on the map (set the User Location Source Id on the Map Component to 'fused').
+ *
+ * Key Features:
+ * - Inverse-variance weighting of horizontal and vertical position
+ * - Accuracy degradation with fix age, and a maximum age after which fixes are ignored
+ * - Combined horizontal and vertical accuracy of the fused estimate
+ * - LocationSource implementation, registered as 'fused'
+ */
+
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { createLocationFix, LocationFix, LocationSource } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+
+/** Accuracy used for sources that report an accuracy of 0 (unknown), in meters */
+const UNKNOWN_ACCURACY = 100;
+
+@component
+export class FusedLocationSource extends BaseScriptComponent implements LocationSource {
+
+  /** Id under which the FusedLocationSource is registered in the LocationSourceRegistry */
+  static readonly SOURCE_ID = 'fused';
+
+  readonly sourceId: string = FusedLocationSource.SOURCE_ID;
+
+  /** Ids of the location sources to combine (see LocationSourceRegistry) */
+  @input
+  public inputSourceIds: string[] = ['spectacles', 'mobile-kit'];
+
+  /** Fixes older than this are not used in the estimate, in seconds */
+  @input
+  public maxFixAge: number = 10;
+
+  /** How fast the accuracy of a fix degrades with its age, in meters per second (roughly walking speed) */
+  @input
+  public accuracyDegradationPerSecond: number = 1.5;
+
+  /** Latest fix per input source id */
+  private inputFixes: Map<string, LocationFix> = new Map();
+
+  /** Functions to remove the subscriptions on the input sources */
+  private unsubscribeFunctions: (() => void)[] = [];
+
+  /** Whether fused fixes are currently being published */
+  private running: boolean = false;
+
+  /** The most recent fused fix */
+  private lastFix: LocationFix = null;
+
+  private onFixEvent = new Event<LocationFix>();
+  public onFix = this.onFixEvent.publicApi();
+
+  onAwake() {
+    LocationSourceRegistry.getInstance().register(this);
+
+    this.createEvent('OnStartEvent').bind(() => {
+      this.start();
+    });
+  }
+
+  /**
+   * Subscribes to all input sources and starts publishing fused fixes.
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const registry = LocationSourceRegistry.getInstance();
+    this.inputSourceIds.forEach((inputSourceId) => {
+      this.unsubscribeFunctions.push(
+        registry.subscribe(inputSourceId, (fix) => this.processInputFix(fix))
+      );
+    });
+  }
+
+  /**
+   * Unsubscribes from all input sources and forgets their fixes.
+   */
+  stop() {
+    this.running = false;
+    this.unsubscribeFunctions.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribeFunctions = [];
+    this.inputFixes.clear();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getLastFix(): LocationFix | null {
+    return this.lastFix;
+  }
+
+  /**
+   * Stores the fix of an input source and publishes a new fused estimate.
+   * @param fix The fix received from one of the input sources
+   */
+  private processInputFix(fix: LocationFix) {
+    this.inputFixes.set(fix.sourceId, fix);
+
+    const fusedFix = this.computeFusedFix();
+    if (fusedFix === null) {
+      return;
+    }
+
+    this.lastFix = fusedFix;
+    this.onFixEvent.invoke(this.lastFix);
+  }
+
+  /**
+   * Combines the latest fixes of all input sources using inverse-variance weighting.
+   * @returns The fused fix, or null when none of the input fixes is recent enough
+   */
+  private computeFusedFix(): LocationFix | null {
+    const now = Date.now();
+
+    let horizontalWeightSum = 0;
+    let latitudeSum = 0;
+    let longitudeSum = 0;
+    let verticalWeightSum = 0;
+    let altitudeSum = 0;
+    let platformLocationSource = '';
+    let bestHorizontalAccuracy = Number.MAX_VALUE;
+
+    this.inputFixes.forEach((fix) => {
+      const ageSeconds = Math.max(0, (now - fix.timestamp) / 1000);
+      if (ageSeconds > this.maxFixAge) {
+        return;
+      }
+
+      const ageDegradation = ageSeconds * this.accuracyDegradationPerSecond;
+      const horizontalAccuracy = FusedLocationSource.knownAccuracy(fix.horizontalAccuracy) + ageDegradation;
+      const verticalAccuracy = FusedLocationSource.knownAccuracy(fix.verticalAccuracy) + ageDegradation;
+
+      const horizontalWeight = 1 / (horizontalAccuracy * horizontalAccuracy);
+      horizontalWeightSum += horizontalWeight;
+      latitudeSum += fix.latitude * horizontalWeight;
+      longitudeSum += fix.longitude * horizontalWeight;
+
+      const verticalWeight = 1 / (verticalAccuracy * verticalAccuracy);
+      verticalWeightSum += verticalWeight;
+      altitudeSum += fix.altitude * verticalWeight;
+
+      // Report the platform location source of the most accurate contributing fix
+      if (horizontalAccuracy < bestHorizontalAccuracy) {
+        bestHorizontalAccuracy = horizontalAccuracy;
+        platformLocationSource = fix.locationSource;
+      }
+    });
+
+    if (horizontalWeightSum === 0) {
+      return null;
+    }
+
+    return createLocationFix(
+      this.sourceId,
+      latitudeSum / horizontalWeightSum,
+      longitudeSum / horizontalWeightSum,
+      Math.sqrt(1 / horizontalWeightSum),
+      altitudeSum / verticalWeightSum,
+      Math.sqrt(1 / verticalWeightSum),
+      platformLocationSource
+    );
+  }
+
+  /**
+   * Replaces an unknown (zero or negative) accuracy with a conservative default.
+   * @param accuracy The reported accuracy in meters
+   * @returns The accuracy to use for weighting, in meters
+   */
+  private static knownAccuracy(accuracy: number): number {
+    return accuracy > 0 ? accuracy : UNKNOWN_ACCURACY;
+  }
+}
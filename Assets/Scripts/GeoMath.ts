@@ -0,0 +1,122 @@
+/**
+ * GeoMath - Small geographic helper functions shared by the location scripts
+ *
+ * Converts between latitude/longitude and a local metric frame (meters east/north of an origin),
+ * which is accurate enough for the distances involved in walking around, and is what the filters
+ * and estimators in this project work in.
+ *
+ * Key Features:
+ * - Conversion between latitude/longitude and local east/north meters around an origin
+ * - Angle helpers working in degrees, including circular mean and spread
+ */
+
+/** Mean earth radius in meters, same value as used by getPhysicalDistanceBetweenLocations in MapUtils */
+export const EARTH_RADIUS = 6371 * 1000;
+
+/**
+ * Converts a latitude/longitude into meters east (x) and north (y) of an origin,
+ * using an equirectangular approximation around the origin.
+ * @param originLatitude Latitude of the origin in degrees
+ * @param originLongitude Longitude of the origin in degrees
+ * @param latitude Latitude to convert in degrees
+ * @param longitude Longitude to convert in degrees
+ * @returns Offset from the origin in meters (x = east, y = north)
+ */
+export function toLocalMeters(
+  originLatitude: number,
+  originLongitude: number,
+  latitude: number,
+  longitude: number
+): vec2 {
+  const x = (longitude - originLongitude) * MathUtils.DegToRad * EARTH_RADIUS * Math.cos(originLatitude * MathUtils.DegToRad);
+  const y = (latitude - originLatitude) * MathUtils.DegToRad * EARTH_RADIUS;
+  return new vec2(x, y);
+}
+
+/**
+ * Converts an offset in meters east (x) and north (y) of an origin back into latitude/longitude.
+ * Inverse of toLocalMeters().
+ * @param originLatitude Latitude of the origin in degrees
+ * @param originLongitude Longitude of the origin in degrees
+ * @param offset Offset from the origin in meters (x = east, y = north)
+ * @returns Latitude and longitude in degrees
+ */
+export function fromLocalMeters(
+  originLatitude: number,
+  originLongitude: number,
+  offset: vec2
+): { latitude: number; longitude: number } {
+  const latitude = originLatitude + (offset.y / EARTH_RADIUS) * MathUtils.RadToDeg;
+  const longitude = originLongitude + (offset.x / (EARTH_RADIUS * Math.cos(originLatitude * MathUtils.DegToRad))) * MathUtils.RadToDeg;
+  return { latitude: latitude, longitude: longitude };
+}
+
+/**
+ * Normalizes an angle in degrees to the range [0, 360).
+ * @param degrees The angle in degrees
+ * @returns The normalized angle in degrees
+ */
+export function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Returns the compass direction (clockwise from north) of a local metric vector.
+ * @param east Eastward component
+ * @param north Northward component
+ * @returns Direction in degrees in the range [0, 360)
+ */
+export function directionDegrees(east: number, north: number): number {
+  return normalizeDegrees(Math.atan2(east, north) * MathUtils.RadToDeg);
+}
+
+/**
+ * Returns the signed difference between two angles, taking the wrap-around at 360 degrees into account.
+ * @param a First angle in degrees
+ * @param b Second angle in degrees
+ * @returns a - b in degrees in the range [-180, 180)
+ */
+export function angleDifferenceDegrees(a: number, b: number): number {
+  return normalizeDegrees(a - b + 180) - 180;
+}
+
+/**
+ * Returns the circular mean of a set of angles, e.g. the mean of 350° and 10° is 0°, not 180°.
+ * @param angles Angles in degrees
+ * @returns The mean angle in degrees in the range [-180, 180), 0 for no angles
+ */
+export function circularMeanDegrees(angles: number[]): number {
+  if (angles.length === 0) {
+    return 0;
+  }
+
+  let sumSin = 0;
+  let sumCos = 0;
+  angles.forEach((angle) => {
+    sumSin += Math.sin(angle * MathUtils.DegToRad);
+    sumCos += Math.cos(angle * MathUtils.DegToRad);
+  });
+  return angleDifferenceDegrees(Math.atan2(sumSin, sumCos) * MathUtils.RadToDeg, 0);
+}
+
+/**
+ * Returns the circular standard deviation of a set of angles, a measure of their spread that
+ * behaves like the standard deviation for small spreads.
+ * @param angles Angles in degrees
+ * @returns The circular standard deviation in degrees, 0 for no angles
+ */
+export function circularStandardDeviationDegrees(angles: number[]): number {
+  if (angles.length === 0) {
+    return 0;
+  }
+
+  let sumSin = 0;
+  let sumCos = 0;
+  angles.forEach((angle) => {
+    sumSin += Math.sin(angle * MathUtils.DegToRad);
+    sumCos += Math.cos(angle * MathUtils.DegToRad);
+  });
+  // Mean resultant length, 1 when all angles are equal, towards 0 when they are spread around the circle
+  const resultantLength = Math.min(1, Math.sqrt(sumSin * sumSin + sumCos * sumCos) / angles.length);
+  return Math.sqrt(-2 * Math.log(resultantLength)) * MathUtils.RadToDeg;
+}
@@ -0,0 +1,329 @@
+/**
+ * Gpx - GPX 1.1 parsing and serialization, and conversion from/to location sessions
+ *
+ * GPX is the exchange format of most GPS tooling (track editors, loggers, analysis tools). This module reads
+ * and writes the parts of GPX 1.1 that matter for comparing positions: tracks with segments of track points
+ * (trk/trkseg/trkpt with ele and time) and waypoints (wpt). Lens scripting has no XML parser, so parsing is a
+ * small tag scanner that ignores everything it doesn't know (extensions, metadata, routes).
+ *
+ * A recorded session is exported with one track per source id, and a GPX document can be converted into session
+ * entries for the LocationReplaySource, with headings derived from the direction of travel.
+ *
+ * Key Features:
+ * - Parsing of GPX 1.1 tracks, segments, track points and waypoints, with elevation, time and name
+ * - Serialization to GPX 1.1
+ * - Conversion of a location session to GPX and of GPX to location session entries
+ */
+
+import { directionDegrees, toLocalMeters } from "./GeoMath";
+import { createHeadingEntry, SessionEntry, SessionFixEntry } from "./LocationSession";
+
+/** Creator written into exported GPX documents */
+const GPX_CREATOR = 'SnapOSLocationTools';
+
+/** Time between track points without a time when converting GPX to session entries, in milliseconds */
+const DEFAULT_POINT_INTERVAL = 1000;
+
+/** Minimum distance between track points to derive a heading from them, in meters */
+const MIN_HEADING_DISTANCE = 1;
+
+/** A GPX track point or waypoint */
+export type GpxPoint = {
+  latitude: number;                   // Latitude in degrees
+  longitude: number;                  // Longitude in degrees
+  elevation: number | null;           // Elevation in meters (ele), null if absent
+  time: number | null;                // Time in milliseconds since epoch, null if absent
+  name: string;                       // Name of the point, '' if absent
+};
+
+/** A GPX track, made of one or more segments of track points */
+export type GpxTrack = {
+  name: string;
+  segments: GpxPoint[][];
+};
+
+/** The contents of a GPX document */
+export type GpxDocument = {
+  waypoints: GpxPoint[];
+  tracks: GpxTrack[];
+};
+
+/**
+ * Parses a GPX 1.1 document. Points without a valid latitude/longitude are skipped with a warning.
+ * @param text The GPX document
+ * @returns The waypoints and tracks of the document
+ */
+export function parseGpx(text: string): GpxDocument {
+  const document: GpxDocument = { waypoints: [], tracks: [] };
+
+  getElements(text, 'wpt').forEach((element) => {
+    const point = parsePoint(element);
+    if (point !== null) {
+      document.waypoints.push(point);
+    }
+  });
+
+  getElements(text, 'trk').forEach((trackElement) => {
+    const track: GpxTrack = {
+      name: getChildText(removeElements(trackElement.content, 'trkseg'), 'name'),
+      segments: [],
+    };
+
+    getElements(trackElement.content, 'trkseg').forEach((segmentElement) => {
+      const segment: GpxPoint[] = [];
+      getElements(segmentElement.content, 'trkpt').forEach((pointElement) => {
+        const point = parsePoint(pointElement);
+        if (point !== null) {
+          segment.push(point);
+        }
+      });
+      track.segments.push(segment);
+    });
+
+    document.tracks.push(track);
+  });
+
+  return document;
+}
+
+/**
+ * Serializes waypoints and tracks to a GPX 1.1 document.
+ * @param document The waypoints and tracks to serialize
+ * @returns The GPX document
+ */
+export function serializeGpx(document: GpxDocument): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="' + GPX_CREATOR + '" xmlns="http://www.topografix.com/GPX/1/1">',
+  ];
+
+  document.waypoints.forEach((point) => {
+    lines.push(serializePoint('wpt', point, '  '));
+  });
+
+  document.tracks.forEach((track) => {
+    lines.push('  <trk>');
+    if (track.name !== '') {
+      lines.push('    <name>' + escapeXml(track.name) + '</name>');
+    }
+    track.segments.forEach((segment) => {
+      lines.push('    <trkseg>');
+      segment.forEach((point) => lines.push(serializePoint('trkpt', point, '      ')));
+      lines.push('    </trkseg>');
+    });
+    lines.push('  </trk>');
+  });
+
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Converts the fixes of a location session to GPX, with one track per source id.
+ * Heading entries are not part of GPX and are left out.
+ * @param entries The session entries, sorted by timestamp
+ * @returns The GPX document
+ */
+export function sessionToGpx(entries: SessionEntry[]): GpxDocument {
+  const tracksBySource: Map<string, GpxTrack> = new Map();
+
+  entries.forEach((entry) => {
+    if (entry.type !== 'fix') {
+      return;
+    }
+
+    if (!tracksBySource.has(entry.sourceId)) {
+      tracksBySource.set(entry.sourceId, { name: entry.sourceId, segments: [[]] });
+    }
+    tracksBySource.get(entry.sourceId).segments[0].push({
+      latitude: entry.latitude,
+      longitude: entry.longitude,
+      elevation: entry.altitude,
+      time: entry.timestamp,
+      name: '',
+    });
+  });
+
+  return { waypoints: [], tracks: Array.from(tracksBySource.values()) };
+}
+
+/**
+ * Converts the track points of a GPX document to location session entries, e.g. for the LocationReplaySource.
+ * Points without a time are placed one second after the previous point. A heading entry pointing in the
+ * direction of travel is added before every fix that moved, so the compass follows the track when replayed.
+ * @param document The GPX document
+ * @param sourceId Source id given to the entries
+ * @returns The session entries, sorted by timestamp
+ */
+export function gpxToSessionEntries(document: GpxDocument, sourceId: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let previousTime: number = null;
+
+  document.tracks.forEach((track) => {
+    track.segments.forEach((segment) => {
+      let previousPoint: GpxPoint = null;
+
+      segment.forEach((point) => {
+        let time = point.time;
+        if (time === null) {
+          time = previousTime === null ? Date.now() : previousTime + DEFAULT_POINT_INTERVAL;
+        }
+        previousTime = time;
+
+        if (previousPoint !== null) {
+          const offset = toLocalMeters(previousPoint.latitude, previousPoint.longitude, point.latitude, point.longitude);
+          if (offset.length >= MIN_HEADING_DISTANCE) {
+            entries.push(createHeadingEntry(sourceId, directionDegrees(offset.x, offset.y), time));
+          }
+        }
+        previousPoint = point;
+
+        const fixEntry: SessionFixEntry = {
+          type: 'fix',
+          sourceId: sourceId,
+          timestamp: time,
+          latitude: point.latitude,
+          longitude: point.longitude,
+          horizontalAccuracy: 0,
+          altitude: point.elevation === null ? 0 : point.elevation,
+          verticalAccuracy: 0,
+          locationSource: '',
+        };
+        entries.push(fixEntry);
+      });
+    });
+  });
+
+  // Stable sort, so a heading entry stays before the fix with the same timestamp.
+  entries.sort((a, b) => a.timestamp - b.timestamp);
+  return entries;
+}
+
+/** An XML element found by the tag scanner */
+type XmlElement = {
+  attributes: string;                 // The raw attribute text of the start tag
+  content: string;                    // Everything between the start and end tag, '' for empty elements
+};
+
+/**
+ * Finds all elements with a tag name, without descending into elements of the same name.
+ */
+function getElements(text: string, tagName: string): XmlElement[] {
+  const elements: XmlElement[] = [];
+  const pattern = new RegExp('<' + tagName + '(\\s[^>]*?)?(/?)>', 'g');
+  const endTag = '</' + tagName + '>';
+
+  let match: RegExpExecArray;
+  while ((match = pattern.exec(text)) !== null) {
+    const attributes = match[1] || '';
+    if (match[2] === '/') {
+      elements.push({ attributes: attributes, content: '' });
+      continue;
+    }
+
+    const contentStart = match.index + match[0].length;
+    const contentEnd = text.indexOf(endTag, contentStart);
+    if (contentEnd === -1) {
+      print('parseGpx() - Warning: missing ' + endTag + ', ignoring the rest of the document');
+      break;
+    }
+
+    elements.push({ attributes: attributes, content: text.substring(contentStart, contentEnd) });
+    pattern.lastIndex = contentEnd + endTag.length;
+  }
+
+  return elements;
+}
+
+/**
+ * Removes all elements with a tag name, so the remaining text only contains the direct children of interest.
+ */
+function removeElements(text: string, tagName: string): string {
+  return text.replace(new RegExp('<' + tagName + '[\\s>][\\s\\S]*?</' + tagName + '>', 'g'), '');
+}
+
+/**
+ * Returns the text of the first child element with a tag name, '' if absent.
+ */
+function getChildText(text: string, tagName: string): string {
+  const elements = getElements(text, tagName);
+  if (elements.length === 0) {
+    return '';
+  }
+  return unescapeXml(elements[0].content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim());
+}
+
+/**
+ * Returns the value of an attribute of a start tag, null if absent.
+ */
+function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp('\\b' + name + '\\s*=\\s*(?:"([^"]*)"|\'([^\']*)\')').exec(attributes);
+  if (match === null) {
+    return null;
+  }
+  return match[1] !== undefined ? match[1] : match[2];
+}
+
+/**
+ * Converts a wpt or trkpt element into a point.
+ * @returns The point, or null when the latitude or longitude is missing or invalid
+ */
+function parsePoint(element: XmlElement): GpxPoint | null {
+  const latitude = parseFloat(getAttribute(element.attributes, 'lat'));
+  const longitude = parseFloat(getAttribute(element.attributes, 'lon'));
+  if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    print('parseGpx() - Warning: skipping point with invalid lat/lon: ' + element.attributes.trim());
+    return null;
+  }
+
+  const elevation = parseFloat(getChildText(element.content, 'ele'));
+  const time = Date.parse(getChildText(element.content, 'time'));
+
+  return {
+    latitude: latitude,
+    longitude: longitude,
+    elevation: isNaN(elevation) ? null : elevation,
+    time: isNaN(time) ? null : time,
+    name: getChildText(element.content, 'name'),
+  };
+}
+
+/**
+ * Serializes a point as a wpt or trkpt element.
+ */
+function serializePoint(tagName: string, point: GpxPoint, indent: string): string {
+  const children: string[] = [];
+  if (point.elevation !== null) {
+    children.push('<ele>' + point.elevation.toFixed(1) + '</ele>');
+  }
+  if (point.time !== null) {
+    children.push('<time>' + new Date(point.time).toISOString() + '</time>');
+  }
+  if (point.name !== '') {
+    children.push('<name>' + escapeXml(point.name) + '</name>');
+  }
+
+  const startTag = '<' + tagName + ' lat="' + point.latitude.toFixed(7) + '" lon="' + point.longitude.toFixed(7) + '"';
+  if (children.length === 0) {
+    return indent + startTag + '/>';
+  }
+  return indent + startTag + '>' + children.join('') + '</' + tagName + '>';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,111 @@
+/**
+ * GpxReferenceTrack - Draws a GPX track on the map as a reference
+ *
+ * This component draws the tracks and waypoints of a GPX document on the map, using the geometry drawing of the
+ * Map Component, so a known-good track (e.g. from a survey-grade receiver or a phone logger) can be compared by
+ * eye against the live user pin or a replayed session.
+ *
+ * Key Features:
+ * - GPX document from a text input or from script
+ * - Each track segment drawn as a line, waypoints as dots
+ * - Waits until the initial map tiles are loaded before drawing
+ */
+
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { GpxDocument, parseGpx } from "./Gpx";
+
+@component
+export class GpxReferenceTrack extends BaseScriptComponent {
+
+  /** GPX document to draw when the map is loaded */
+  @input
+  @widget(new TextAreaWidget())
+  public gpxText: string = '';
+
+  /** Map to draw the track on */
+  @input
+  public mapComponent: MapComponent;
+
+  /** Thickness of the track lines */
+  @input
+  public lineThickness: number = 0.2;
+
+  /** Radius of the waypoint dots */
+  @input
+  public waypointRadius: number = 0.1;
+
+  /** Whether the initial map tiles are loaded, so geometry can be drawn */
+  private mapReady: boolean = false;
+
+  /** Document to draw once the map is ready */
+  private pendingDocument: GpxDocument = null;
+
+  /** Geometry drawn by this component, so it can be removed without touching geometry drawn by others */
+  private drawnGeometry: SceneObject[] = [];
+
+  onAwake() {
+    if (this.gpxText.trim() !== '') {
+      this.pendingDocument = parseGpx(this.gpxText);
+    }
+
+    this.mapComponent.subscribeOnMaptilesLoaded(() => {
+      if (this.mapReady) {
+        return;
+      }
+      this.mapReady = true;
+
+      if (this.pendingDocument !== null) {
+        this.drawDocument(this.pendingDocument);
+        this.pendingDocument = null;
+      }
+    });
+  }
+
+  /**
+   * Draws the tracks and waypoints of a GPX document on the map, or once the map is loaded.
+   * @param gpxText The GPX document
+   */
+  drawGpx(gpxText: string) {
+    const document = parseGpx(gpxText);
+    if (!this.mapReady) {
+      this.pendingDocument = document;
+      return;
+    }
+    this.drawDocument(document);
+  }
+
+  /**
+   * Removes the tracks and waypoints drawn by this component from the map.
+   */
+  clear() {
+    this.pendingDocument = null;
+    this.drawnGeometry.forEach((geometry) => this.mapComponent.removeGeometry(geometry));
+    this.drawnGeometry = [];
+  }
+
+  private drawDocument(document: GpxDocument) {
+    let pointCount = 0;
+
+    document.tracks.forEach((track) => {
+      track.segments.forEach((segment) => {
+        // Geometry points are (longitude, latitude)
+        const points = segment.map((point) => new vec2(point.longitude, point.latitude));
+        pointCount += points.length;
+
+        if (points.length === 1) {
+          this.drawnGeometry.push(this.mapComponent.drawGeometryPoint(points[0], this.waypointRadius));
+        } else if (points.length > 1) {
+          this.drawnGeometry.push(this.mapComponent.drawGeometryMultiline(points, this.lineThickness));
+        }
+      });
+    });
+
+    document.waypoints.forEach((waypoint) => {
+      this.drawnGeometry.push(
+        this.mapComponent.drawGeometryPoint(new vec2(waypoint.longitude, waypoint.latitude), this.waypointRadius));
+    });
+
+    print('drawDocument() - Drew ' + document.tracks.length + ' tracks (' + pointCount + ' points) and ' +
+      document.waypoints.length + ' waypoints');
+  }
+}
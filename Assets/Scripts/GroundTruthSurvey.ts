@@ -0,0 +1,394 @@
+/**
+ * GroundTruthSurvey - Benchmarks the accuracy of the location sources against surveyed control points
+ *
+ * Load a list of control points with a precisely known position (see ControlPoints for the format), walk to each
+ * one, stand on it and call startCapture(). For the capture duration the fixes of every surveyed source (by default
+ * 'spectacles' and 'mobile-kit') are collected and averaged, and the averaged position is compared with the control
+ * point: the horizontal error is the distance between them, the vertical error the altitude difference.
+ *
+ * Over all captured points, the errors are summarized per source as CEP50 and CEP95 (circular error probable: the
+ * radius around the true position containing 50% and 95% of the captures), and the 50th and 95th percentile of the
+ * absolute vertical error. The control points, the captured positions and a line between them are drawn on the map.
+ *
+ * Key Features:
+ * - Control points from CSV or GPX waypoints, with optional altitude
+ * - Timed capture per point, averaging the fixes of every surveyed source
+ * - Horizontal and vertical error per point and source
+ * - CEP50/CEP95 and vertical error percentiles per source
+ * - Control points and captured positions drawn on the map
+ * - Optional text display of the current point and the results, also shown in the floating details UI
+ */
+
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { ControlPoint, parseControlPoints } from "./ControlPoints";
+import { fromLocalMeters, toLocalMeters } from "./GeoMath";
+import { LocationFix } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { percentile } from "./Statistics";
+
+/** Averaged position of one source at one control point, and its error */
+export type SurveyCapture = {
+  pointIndex: number;
+  sourceId: string;
+  fixCount: number;                   // Number of fixes averaged
+  latitude: number;                   // Averaged latitude in degrees
+  longitude: number;                  // Averaged longitude in degrees
+  altitude: number;                   // Averaged altitude in meters
+  horizontalAccuracy: number;         // Mean reported horizontal accuracy in meters
+  horizontalError: number;            // Distance from the control point in meters
+  verticalError: number | null;       // Averaged altitude minus control point altitude in meters, null if the point has no altitude
+};
+
+/** Accuracy of one source over all captured control points */
+export type SurveySourceSummary = {
+  sourceId: string;
+  pointCount: number;                 // Number of control points captured with this source
+  cep50: number;                      // Radius containing 50% of the captures, in meters
+  cep95: number;                      // Radius containing 95% of the captures, in meters
+  verticalError50: number;            // 50th percentile of the absolute vertical error in meters, NaN without altitudes
+  verticalError95: number;            // 95th percentile of the absolute vertical error in meters, NaN without altitudes
+};
+
+@component
+export class GroundTruthSurvey extends BaseScriptComponent {
+
+  /** Control points, as CSV lines 'name, latitude, longitude, altitude' or a GPX document with waypoints */
+  @input
+  @widget(new TextAreaWidget())
+  public controlPointsText: string = '';
+
+  /** Ids of the location sources to survey (see LocationSourceRegistry) */
+  @input
+  public surveyedSourceIds: string[] = ['spectacles', 'mobile-kit'];
+
+  /** Time to collect fixes at each control point, in seconds */
+  @input
+  public captureDuration: number = 10;
+
+  /** Whether to move on to the next control point when a capture finishes */
+  @input
+  public advanceAfterCapture: boolean = true;
+
+  /** Optional map to draw the control points and captured positions on */
+  @input
+  @allowUndefined
+  public mapComponent: MapComponent;
+
+  /** Radius of the control point dots */
+  @input
+  public controlPointRadius: number = 0.1;
+
+  /** Radius of the captured position dots */
+  @input
+  public capturedPointRadius: number = 0.05;
+
+  /** Thickness of the lines between the control points and the captured positions */
+  @input
+  public errorLineThickness: number = 0.05;
+
+  /** Optional text component to display the current point and the results */
+  @input
+  @allowUndefined
+  public reportText: Text;
+
+  private controlPoints: ControlPoint[] = [];
+
+  private currentPointIndex: number = 0;
+
+  /** Captures by control point index, one per source */
+  private captures: Map<number, SurveyCapture[]> = new Map();
+
+  private capturing: boolean = false;
+  private captureStartTime: number = 0;
+
+  /** Fixes collected during the current capture, by source id */
+  private captureFixes: Map<string, LocationFix[]> = new Map();
+
+  /** Event to finish the capture after captureDuration */
+  private captureEvent: DelayedCallbackEvent;
+
+  /** Geometry of the control points, and of the captures by control point index */
+  private controlPointGeometry: SceneObject[] = [];
+  private captureGeometry: Map<number, SceneObject[]> = new Map();
+
+  private mapReady: boolean = false;
+
+  onAwake() {
+    this.controlPoints = parseControlPoints(this.controlPointsText);
+
+    const registry = LocationSourceRegistry.getInstance();
+    this.surveyedSourceIds.forEach((sourceId) => {
+      registry.subscribe(sourceId, (fix) => this.onLocationFix(sourceId, fix));
+    });
+
+    this.captureEvent = this.createEvent('DelayedCallbackEvent');
+    this.captureEvent.bind(() => {
+      this.finishCapture();
+    });
+
+    if (this.mapComponent) {
+      this.mapComponent.subscribeOnMaptilesLoaded(() => {
+        if (this.mapReady) {
+          return;
+        }
+        this.mapReady = true;
+        this.drawControlPoints();
+        this.captures.forEach((captures, pointIndex) => this.drawCaptures(pointIndex));
+      });
+    }
+
+    this.createEvent('OnStartEvent').bind(() => {
+      this.updateReportText();
+    });
+  }
+
+  /**
+   * Replaces the control points, clearing all captures.
+   * @param text CSV lines or a GPX document, see ControlPoints
+   */
+  loadControlPoints(text: string) {
+    this.controlPoints = parseControlPoints(text);
+    this.reset();
+    this.drawControlPoints();
+  }
+
+  getControlPoints(): ControlPoint[] {
+    return this.controlPoints;
+  }
+
+  /**
+   * Returns the control point to capture next, null when there are no control points.
+   */
+  getCurrentPoint(): ControlPoint | null {
+    return this.controlPoints.length > 0 ? this.controlPoints[this.currentPointIndex] : null;
+  }
+
+  /**
+   * Selects the control point to capture next. Ignored while capturing.
+   * @param index Index of the control point
+   */
+  selectPoint(index: number) {
+    if (this.capturing || this.controlPoints.length === 0) {
+      return;
+    }
+    this.currentPointIndex = Math.min(Math.max(index, 0), this.controlPoints.length - 1);
+    this.updateReportText();
+  }
+
+  nextPoint() {
+    this.selectPoint(this.currentPointIndex + 1);
+  }
+
+  previousPoint() {
+    this.selectPoint(this.currentPointIndex - 1);
+  }
+
+  /**
+   * Starts collecting the fixes of the surveyed sources at the current control point. A previous capture of the
+   * point is replaced when the capture finishes.
+   */
+  startCapture() {
+    if (this.capturing || this.getCurrentPoint() === null) {
+      return;
+    }
+    this.capturing = true;
+    this.captureStartTime = getTime();
+    this.captureFixes.clear();
+    this.surveyedSourceIds.forEach((sourceId) => this.captureFixes.set(sourceId, []));
+    this.captureEvent.reset(this.captureDuration);
+    this.updateReportText();
+  }
+
+  isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  /**
+   * Returns the captures of a control point, one per source that produced fixes during the capture.
+   * @param index Index of the control point
+   */
+  getCaptures(index: number): SurveyCapture[] {
+    return this.captures.get(index) || [];
+  }
+
+  /**
+   * Summarizes the errors of every surveyed source over all captured control points.
+   */
+  getSourceSummaries(): SurveySourceSummary[] {
+    return this.surveyedSourceIds.map((sourceId) => {
+      const captures: SurveyCapture[] = [];
+      this.captures.forEach((pointCaptures) => {
+        pointCaptures.filter((capture) => capture.sourceId === sourceId).forEach((capture) => captures.push(capture));
+      });
+      const horizontalErrors = captures.map((capture) => capture.horizontalError);
+      const verticalErrors = captures
+        .filter((capture) => capture.verticalError !== null)
+        .map((capture) => Math.abs(capture.verticalError));
+
+      return {
+        sourceId: sourceId,
+        pointCount: captures.length,
+        cep50: percentile(horizontalErrors, 50),
+        cep95: percentile(horizontalErrors, 95),
+        verticalError50: percentile(verticalErrors, 50),
+        verticalError95: percentile(verticalErrors, 95),
+      };
+    });
+  }
+
+  /**
+   * Returns the current point, the capture progress or its results, and the summary per source as text.
+   */
+  getReportText(): string {
+    const point = this.getCurrentPoint();
+    if (point === null) {
+      return 'Survey: no control points loaded';
+    }
+
+    let text = 'Survey point ' + (this.currentPointIndex + 1) + '/' + this.controlPoints.length + ': ' + point.name;
+    if (this.capturing) {
+      const timeLeft = Math.max(0, this.captureDuration - (getTime() - this.captureStartTime));
+      const counts = this.surveyedSourceIds.map((sourceId) => sourceId + ' ' + this.captureFixes.get(sourceId).length);
+      text += '\nCapturing, stand still... ' + timeLeft.toFixed(0) + 's left (fixes: ' + counts.join(', ') + ')';
+    } else {
+      const captures = this.getCaptures(this.currentPointIndex);
+      if (captures.length === 0) {
+        text += '\nNot captured yet';
+      }
+      captures.forEach((capture) => {
+        text += '\n' + capture.sourceId + ': ' + capture.horizontalError.toFixed(1) + 'm horizontal' +
+          (capture.verticalError !== null ? ', ' + (capture.verticalError >= 0 ? '+' : '') + capture.verticalError.toFixed(1) + 'm vertical' : '') +
+          ' (' + capture.fixCount + ' fixes)';
+      });
+    }
+
+    this.getSourceSummaries().filter((summary) => summary.pointCount > 0).forEach((summary) => {
+      text += '\n' + summary.sourceId + ' (' + summary.pointCount + ' points): CEP50 ' + summary.cep50.toFixed(1) + 'm' +
+        ', CEP95 ' + summary.cep95.toFixed(1) + 'm' +
+        (!isNaN(summary.verticalError50) ? ', vertical 50% ' + summary.verticalError50.toFixed(1) + 'm' +
+          ', 95% ' + summary.verticalError95.toFixed(1) + 'm' : '');
+    });
+    return text;
+  }
+
+  /**
+   * Removes all captures and their geometry, and goes back to the first control point.
+   */
+  reset() {
+    this.capturing = false;
+    this.currentPointIndex = 0;
+    this.captures.clear();
+    this.captureGeometry.forEach((geometry, pointIndex) => this.removeCaptureGeometry(pointIndex));
+    this.updateReportText();
+  }
+
+  private onLocationFix(sourceId: string, fix: LocationFix) {
+    if (!this.capturing) {
+      return;
+    }
+    this.captureFixes.get(sourceId).push(fix);
+    this.updateReportText();
+  }
+
+  /**
+   * Averages the collected fixes of every source and compares them with the current control point.
+   */
+  private finishCapture() {
+    if (!this.capturing) {
+      return;
+    }
+    this.capturing = false;
+
+    const pointIndex = this.currentPointIndex;
+    const point = this.controlPoints[pointIndex];
+    const captures: SurveyCapture[] = [];
+
+    this.captureFixes.forEach((fixes, sourceId) => {
+      if (fixes.length === 0) {
+        print('finishCapture() - Warning: no fixes from ' + sourceId + ' at ' + point.name);
+        return;
+      }
+
+      // Average in local meters around the control point, so the mean offset is the horizontal error
+      let east = 0;
+      let north = 0;
+      fixes.forEach((fix) => {
+        const offset = toLocalMeters(point.latitude, point.longitude, fix.latitude, fix.longitude);
+        east += offset.x / fixes.length;
+        north += offset.y / fixes.length;
+      });
+      const position = fromLocalMeters(point.latitude, point.longitude, new vec2(east, north));
+      const altitude = fixes.reduce((sum, fix) => sum + fix.altitude, 0) / fixes.length;
+
+      captures.push({
+        pointIndex: pointIndex,
+        sourceId: sourceId,
+        fixCount: fixes.length,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        altitude: altitude,
+        horizontalAccuracy: fixes.reduce((sum, fix) => sum + fix.horizontalAccuracy, 0) / fixes.length,
+        horizontalError: Math.sqrt(east * east + north * north),
+        verticalError: point.altitude !== null ? altitude - point.altitude : null,
+      });
+    });
+
+    this.captures.set(pointIndex, captures);
+    print('finishCapture() - ' + point.name + ': ' + captures.map((capture) =>
+      capture.sourceId + ' ' + capture.horizontalError.toFixed(1) + 'm').join(', '));
+    this.drawCaptures(pointIndex);
+
+    if (this.advanceAfterCapture) {
+      this.nextPoint();
+    }
+    this.updateReportText();
+  }
+
+  private drawControlPoints() {
+    if (!this.mapComponent || !this.mapReady) {
+      return;
+    }
+    this.controlPointGeometry.forEach((geometry) => this.mapComponent.removeGeometry(geometry));
+
+    // Geometry points are (longitude, latitude)
+    this.controlPointGeometry = this.controlPoints.map((point) =>
+      this.mapComponent.drawGeometryPoint(new vec2(point.longitude, point.latitude), this.controlPointRadius));
+  }
+
+  /**
+   * Draws the captured positions of a control point, each with a line to the control point.
+   */
+  private drawCaptures(pointIndex: number) {
+    if (!this.mapComponent || !this.mapReady) {
+      return;
+    }
+    this.removeCaptureGeometry(pointIndex);
+
+    const point = this.controlPoints[pointIndex];
+    const controlPosition = new vec2(point.longitude, point.latitude);
+    const geometry: SceneObject[] = [];
+    this.getCaptures(pointIndex).forEach((capture) => {
+      const capturedPosition = new vec2(capture.longitude, capture.latitude);
+      geometry.push(this.mapComponent.drawGeometryPoint(capturedPosition, this.capturedPointRadius));
+      geometry.push(this.mapComponent.drawGeometryLine([controlPosition, capturedPosition], this.errorLineThickness));
+    });
+    this.captureGeometry.set(pointIndex, geometry);
+  }
+
+  private removeCaptureGeometry(pointIndex: number) {
+    const geometry = this.captureGeometry.get(pointIndex);
+    if (!geometry) {
+      return;
+    }
+    if (this.mapComponent) {
+      geometry.forEach((sceneObject) => this.mapComponent.removeGeometry(sceneObject));
+    }
+    this.captureGeometry.delete(pointIndex);
+  }
+
+  private updateReportText() {
+    if (this.reportText) {
+      this.reportText.text = this.getReportText();
+    }
+  }
+}
@@ -3,25 +3,51 @@
  * 
  * This component manages all content updates for the hand-locked UI, including GPS status
  * indicators, location text elements, and compass rotation. It synchronizes the UI display
- * with location data from the LocationManager, providing real-time feedback about GPS status,
- * accuracy, heading, and location source.
+ * with location data from a location source subscribed to by name through the LocationSourceRegistry
+ * (by default the LocationManager), and heading data from the LocationManager, providing real-time
+ * feedback about GPS status, accuracy, heading, and location source.
  * 
  * Key Features:
  * - GPS status indicator with color-coded images (white/red/blue/yellow/green)
  * - Real-time location text updates (source, accuracy, heading)
  * - Compass rotation synchronized with heading direction
  * - Efficient updates that only refresh when location source changes
+ * - Stale location data greyed out and annotated with its age
+ * - Heading and compass relative to true or magnetic north, switchable at runtime
+ * - Circular smoothing of the displayed heading with a configurable time constant
+ * - Heading from the Spectacles compass or from another source (e.g. the phone compass over Mobile Kit),
+ *   falling back to the Spectacles compass while that source reports no heading
+ * - Compass calibration quality status next to the GPS status, if a CompassCalibrationMonitor is assigned
  */
 
+import { CompassCalibrationMonitor, CompassQuality } from "./CompassCalibrationMonitor";
+import { HeadingFilter } from "./HeadingFilter";
 import { LocationManager } from "./LocationManager";
+import { formatDuration, getFixAge, isFixStale, LocationFix } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { convertHeading, HeadingReference } from "./MagneticModel";
+
+/** Time in seconds after which the heading of the heading source is considered lost */
+const HEADING_SOURCE_TIMEOUT = 3;
 
 @component
 export class HandLockedUIContentManager extends BaseScriptComponent {
 
-  /** Reference to the LocationManager to get location data */
+  /** Reference to the LocationManager to get heading data */
   @input
   public locationManager: LocationManager;
 
+  /** Id of the location source to display (see LocationSourceRegistry) */
+  @input
+  public locationSourceId: string = 'spectacles';
+
+  /**
+   * Fixes older than this are shown as stale (greyed out, with their age), in seconds.
+   * LocationManager fixes get their current update interval on top.
+   */
+  @input
+  public staleFixAge: number = 5;
+
   /** Image for empty/unknown GPS status (white) */
   @input
   public gpsStatusWhiteImage: Image;
@@ -38,6 +64,15 @@ export class HandLockedUIContentManager extends BaseScriptComponent {
   @input
   public gpsStatusGreenImage: Image;
 
+  /** Optional CompassCalibrationMonitor, used to show the compass calibration quality */
+  @input
+  @allowUndefined
+  public compassCalibrationMonitor: CompassCalibrationMonitor;
+  /** Text component next to the GPS status images to display the compass calibration quality */
+  @input
+  @allowUndefined
+  public compassStatusText: Text;
+
   /** Text component to display the location source */
   @input
   public sourceValueText: Text;
@@ -54,15 +89,69 @@ export class HandLockedUIContentManager extends BaseScriptComponent {
   @input
   public headingValueText: Text;
 
+  /** North reference of the displayed heading and compass */
+  @input
+  @widget(new ComboBoxWidget([
+    new ComboBoxItem('True north', 'true'),
+    new ComboBoxItem('Magnetic north', 'magnetic'),
+  ]))
+  public headingReference: string = 'true';
+
+  /** Time constant of the heading smoothing in seconds (higher is smoother but lags more), 0 disables it */
+  @input
+  public headingSmoothingTime: number = 0.2;
+
+  /**
+   * Id of the location source providing the heading (see LocationSourceRegistry). The id of the LocationManager
+   * uses the Spectacles compass, other sources (e.g. 'mobile-kit' for the phone compass) must report a true heading
+   */
+  @input
+  public headingSourceId: string = 'spectacles';
+
   /** Store the last known location source to avoid unnecessary updates */
   private lastLocationSource: string = '';
 
+  /** Most recent fix of the displayed location source */
+  private locationFix: LocationFix = null;
+
+  /** Original colors of the source and accuracy texts, restored when the data is fresh again */
+  private sourceTextColor: vec4;
+  private accuracyTextColor: vec4;
+
+  /** Smooths the heading shown by the compass and the heading text */
+  private headingFilter: HeadingFilter;
+
+  /** Latest true heading of the heading source in degrees, null when using the LocationManager compass */
+  private sourceHeading: number | null = null;
+  /** Time of the latest heading of the heading source, in seconds (getTime()) */
+  private sourceHeadingTime: number = 0;
+  private unsubscribeHeadingSource: () => void = null;
+
   /**
-   * Component initialization - sets up the update loop for content
+   * Component initialization - sets up the update loop for content and subscribes to the location source
    */
   onAwake() {
     // Set up the main update loop for content updates
     this.createEvent("UpdateEvent").bind(this.onUpdate.bind(this));
+
+    LocationSourceRegistry.getInstance().subscribe(this.locationSourceId, (fix) => {
+      this.locationFix = fix;
+    });
+
+    if (this.sourceValueText) {
+      this.sourceTextColor = this.sourceValueText.textFill.color;
+    }
+    if (this.accuracyValueText) {
+      this.accuracyTextColor = this.accuracyValueText.textFill.color;
+    }
+
+    this.headingFilter = new HeadingFilter(this.headingSmoothingTime);
+    this.setHeadingSource(this.headingSourceId);
+
+    if (this.compassCalibrationMonitor && this.compassStatusText) {
+      this.compassCalibrationMonitor.onQualityChanged.add((quality) => this.updateCompassStatus(quality));
+      this.updateCompassStatus(this.compassCalibrationMonitor.getQuality());
+    }
   }
 
   /**
@@ -70,19 +159,65 @@ export class HandLockedUIContentManager extends BaseScriptComponent {
    * Handles content updates like GPS status and text elements
    */
   onUpdate() {
+    this.updateHeading(); // Smooth the heading once for the text and the compass
     this.updateGPSStatusIndicator(); // Update GPS status indicator
     this.updateLocationTextElements(); // Update location text elements
     this.updateCompassRotation(); // Update compass rotation based on heading
   }
 
+  /**
+   * Switches the displayed heading and compass between true and magnetic north.
+   * @param reference North reference of the displayed heading
+   */
+  setHeadingReference(reference: HeadingReference) {
+    this.headingReference = reference;
+  }
+
+  /**
+   * Switches the source of the displayed heading and compass.
+   * @param sourceId Id of the location source providing the heading, the LocationManager id for the Spectacles compass
+   */
+  setHeadingSource(sourceId: string) {
+    if (this.unsubscribeHeadingSource !== null) {
+      this.unsubscribeHeadingSource();
+      this.unsubscribeHeadingSource = null;
+    }
+
+    this.headingSourceId = sourceId;
+    this.sourceHeading = null;
+    if (!this.locationManager || sourceId === this.locationManager.sourceId) {
+      return;
+    }
+
+    this.unsubscribeHeadingSource = LocationSourceRegistry.getInstance().subscribeHeading(sourceId, (heading) => {
+      this.sourceHeading = heading;
+      this.sourceHeadingTime = getTime();
+    });
+  }
+
+  /**
+   * Runs the heading of the heading source, relative to the selected north reference, through the heading filter.
+   * Uses the LocationManager heading while the heading source reports no heading
+   */
+  private updateHeading() {
+    if (!this.locationManager) return;
+
+    const reference = this.headingReference as HeadingReference;
+    let heading = this.locationManager.getHeading(reference);
+    if (this.sourceHeading !== null && getTime() - this.sourceHeadingTime < HEADING_SOURCE_TIMEOUT) {
+      heading = convertHeading(this.sourceHeading, 'true', reference, this.locationManager.magneticDeclination);
+    }
+
+    this.headingFilter.smoothingTime = this.headingSmoothingTime;
+    this.headingFilter.update(heading, getDeltaTime());
+  }
+
   /**
    * Updates the GPS status indicator by enabling/disabling the appropriate image
    * Only updates when the location source changes to avoid unnecessary updates
    */
   private updateGPSStatusIndicator() {
-    if (!this.locationManager) return;
-
-    const currentLocationSource = this.locationManager.locationSource;
+    const currentLocationSource = this.locationFix ? this.locationFix.locationSource : '';
     
     // Only update if the location source has changed
     if (currentLocationSource !== this.lastLocationSource) {
@@ -102,6 +237,32 @@ export class HandLockedUIContentManager extends BaseScriptComponent {
     }
   }
 
+  /**
+   * Updates the compass status text with the calibration quality, color-coded like the GPS status
+   * (white unknown, green good, yellow fair, red poor)
+   * @param quality The compass calibration quality
+   */
+  private updateCompassStatus(quality: CompassQuality) {
+    switch (quality) {
+      case 'good':
+        this.compassStatusText.text = 'Compass OK';
+        this.compassStatusText.textFill.color = new vec4(0.3, 0.9, 0.3, 1);
+        break;
+      case 'fair':
+        this.compassStatusText.text = 'Compass fair';
+        this.compassStatusText.textFill.color = new vec4(1, 0.85, 0.2, 1);
+        break;
+      case 'poor':
+        this.compassStatusText.text = 'Compass poor';
+        this.compassStatusText.textFill.color = new vec4(1, 0.3, 0.3, 1);
+        break;
+      default:
+        this.compassStatusText.text = 'Compass ?';
+        this.compassStatusText.textFill.color = new vec4(1, 1, 1, 1);
+        break;
+    }
+  }
+
   /**
    * Disables all GPS status images
    */
@@ -114,37 +275,54 @@ export class HandLockedUIContentManager extends BaseScriptComponent {
   }
 
   /**
-   * Updates the location text elements with current data from LocationManager
+   * Stale threshold of the displayed fix in seconds, including the update interval for LocationManager fixes.
+   */
+  private getStaleFixAge(): number {
+    if (this.locationManager && this.locationSourceId === this.locationManager.sourceId) {
+      return this.locationManager.getCurrentInterval() + this.staleFixAge;
+    }
+    return this.staleFixAge;
+  }
+
+  /**
+   * Updates the location text elements with the latest fix and the LocationManager heading
    * Called every frame to ensure text stays synchronized with location data
+   * Stale fixes are greyed out, and the source text shows how old the fix is
    */
   private updateLocationTextElements() {
-    if (!this.locationManager) return;
+    const stale = this.locationFix !== null && isFixStale(this.locationFix, this.getStaleFixAge());
 
     // Update source text
     if (this.sourceValueText) {
-      this.sourceValueText.text = LocationManager.getShortLocationSource(this.locationManager.locationSource);
+      this.sourceValueText.text = LocationManager.getShortLocationSource(this.locationFix ? this.locationFix.locationSource : '') +
+        (stale ? ' (' + formatDuration(getFixAge(this.locationFix)) + ' ago)' : '');
+      this.sourceValueText.textFill.color = stale ? new vec4(0.5, 0.5, 0.5, 1) : this.sourceTextColor; // Light grey color when stale
     }
 
     // Update accuracy text (horizontal accuracy in meters)
     if (this.accuracyValueText) {
-      this.accuracyValueText.text = this.locationManager.horizontalAccuracy.toFixed(0) + 'm';
+      this.accuracyValueText.text = (this.locationFix ? this.locationFix.horizontalAccuracy : 0).toFixed(0) + 'm';
+      this.accuracyValueText.textFill.color = stale ? new vec4(0.5, 0.5, 0.5, 1) : this.accuracyTextColor; // Light grey color when stale
     }
 
-    // Update heading text (in degrees)
+    if (!this.locationManager) return;
+
+    // Update heading text (in degrees, T for true north or M for magnetic north)
     if (this.headingValueText) {
-      this.headingValueText.text = this.locationManager.heading.toFixed(0) + '°';
+      this.headingValueText.text = this.headingFilter.heading.toFixed(0) + '°' +
+        (this.headingReference === 'true' ? 'T' : 'M');
     }
   }
 
   /**
-   * Updates the compass image rotation based on the current heading
+   * Updates the compass image rotation based on the current smoothed heading
    * Rotates the compass around the Z-axis to point in the direction of travel
    */
   private updateCompassRotation() {
     if (!this.locationManager || !this.compassImage) return;
 
     // Convert heading from degrees to radians
-    const headingRadians = this.locationManager.heading * Math.PI / 180;
+    const headingRadians = this.headingFilter.heading * Math.PI / 180;
     
     // Set the rotation around Z-axis (yaw) using setLocalRotation
     const rotationQuat = quat.angleAxis(headingRadians, vec3.forward());
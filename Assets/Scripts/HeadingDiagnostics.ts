@@ -0,0 +1,213 @@
+/**
+ * HeadingDiagnostics - Compares the compass headings with the GNSS course over ground while walking
+ *
+ * While the user walks straight ahead and looks in the walking direction, the compass heading should match the
+ * course over ground derived from the location fixes. This component samples the difference between both compass
+ * headings (the LocationManager heading from the orientation sensor, and the map heading from the device tracking
+ * camera) and the course of the LocationManager on every fix while moving, and accumulates the error distribution.
+ *
+ * A mean offset far from zero means the compass is biased (e.g. a badly calibrated magnetometer or a wrong platform
+ * heading reference on the LocationManager), a large spread means it is noisy or disturbed. Both are compared against
+ * thresholds to recommend a recalibration. The samples are kept in a ring buffer, so the report follows the most
+ * recent walk.
+ *
+ * Key Features:
+ * - Heading error samples of the LocationManager and map compass headings against the GNSS course
+ * - Only samples while moving faster than a minimum speed, so the course is meaningful
+ * - Circular mean offset and spread (circular standard deviation) of each compass
+ * - Recalibration recommendation based on configurable offset and spread thresholds
+ * - Optional text display of the report
+ */
+
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { angleDifferenceDegrees, circularMeanDegrees, circularStandardDeviationDegrees } from "./GeoMath";
+import { LocationManager } from "./LocationManager";
+import { LocationFix } from "./LocationSource";
+import { RingBuffer } from "./RingBuffer";
+
+/** Minimum number of samples before a recalibration is recommended */
+const MIN_REPORT_SAMPLES = 10;
+
+/** Heading errors at one fix, in degrees in the range [-180, 180), compass heading minus course */
+type HeadingErrorSample = {
+  locationManagerError: number;
+  mapError: number;
+};
+
+/** Error distribution of one compass heading against the course */
+export type HeadingErrorStatistics = {
+  meanOffset: number;                 // Circular mean of the error in degrees, positive when the compass points clockwise of the course
+  spread: number;                     // Circular standard deviation of the error in degrees
+};
+
+/** Summary of the heading diagnostics */
+export type HeadingDiagnosticsReport = {
+  sampleCount: number;
+  locationManager: HeadingErrorStatistics;
+  map: HeadingErrorStatistics;
+  recalibrationRecommended: boolean;
+};
+
+@component
+export class HeadingDiagnostics extends BaseScriptComponent {
+
+  /** LocationManager providing the course over ground and the orientation sensor heading */
+  @input
+  public locationManager: LocationManager;
+
+  /** Map providing the tracking camera heading */
+  @input
+  public mapComponent: MapComponent;
+
+  /** Whether to start collecting samples when the Lens starts */
+  @input
+  public runOnStart: boolean = false;
+
+  /** Minimum speed for a sample, in meters per second. The course is unreliable at lower speeds */
+  @input
+  public minimumSpeed: number = 0.8;
+
+  /** Maximum number of samples kept, the oldest are dropped */
+  @input
+  public maxSamples: number = 300;
+
+  /** Mean offset above which a recalibration is recommended, in degrees */
+  @input
+  public offsetThreshold: number = 15;
+
+  /** Spread above which a recalibration is recommended, in degrees */
+  @input
+  public spreadThreshold: number = 25;
+
+  /** Optional text component to display the report */
+  @input
+  @allowUndefined
+  public reportText: Text;
+
+  private samples: RingBuffer<HeadingErrorSample>;
+
+  private running: boolean = false;
+
+  onAwake() {
+    this.samples = new RingBuffer<HeadingErrorSample>(this.maxSamples);
+
+    this.locationManager.onFix.add((fix) => {
+      this.onLocationFix(fix);
+    });
+
+    this.createEvent('OnStartEvent').bind(() => {
+      if (this.runOnStart) {
+        this.start();
+      }
+      this.updateReportText();
+    });
+  }
+
+  /**
+   * Starts collecting samples. Previous samples are kept, use reset() to start over.
+   */
+  start() {
+    this.running = true;
+  }
+
+  /**
+   * Stops collecting samples and prints the report.
+   */
+  stop() {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    print('stop() - ' + this.getReportText().replace(/\n/g, ', '));
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Removes all samples.
+   */
+  reset() {
+    this.samples.clear();
+    this.updateReportText();
+  }
+
+  getSampleCount(): number {
+    return this.samples.size;
+  }
+
+  /**
+   * Returns the error distribution of both compass headings over the collected samples.
+   */
+  getReport(): HeadingDiagnosticsReport {
+    const samples = this.samples.toArray();
+    const locationManager = getStatistics(samples.map((sample) => sample.locationManagerError));
+    const map = getStatistics(samples.map((sample) => sample.mapError));
+
+    return {
+      sampleCount: samples.length,
+      locationManager: locationManager,
+      map: map,
+      recalibrationRecommended: samples.length >= MIN_REPORT_SAMPLES &&
+        (this.exceedsThresholds(locationManager) || this.exceedsThresholds(map)),
+    };
+  }
+
+  /**
+   * Returns the report as text, e.g. for a debug UI.
+   */
+  getReportText(): string {
+    const report = this.getReport();
+    if (report.sampleCount === 0) {
+      return 'Heading diagnostics: no samples' + (this.running ? ', walk straight ahead' : '');
+    }
+
+    let verdict = 'Compass OK';
+    if (report.sampleCount < MIN_REPORT_SAMPLES) {
+      verdict = 'Collecting samples...';
+    } else if (report.recalibrationRecommended) {
+      verdict = 'Recalibration recommended';
+    }
+
+    return 'Heading diagnostics (' + report.sampleCount + ' samples)' +
+      '\nSensor: offset ' + report.locationManager.meanOffset.toFixed(0) + '°, spread ' + report.locationManager.spread.toFixed(0) + '°' +
+      '\nMap: offset ' + report.map.meanOffset.toFixed(0) + '°, spread ' + report.map.spread.toFixed(0) + '°' +
+      '\n' + verdict;
+  }
+
+  /**
+   * Samples the heading errors when a new fix arrives while moving.
+   */
+  private onLocationFix(fix: LocationFix) {
+    if (!this.running || !this.locationManager.isMoving() || this.locationManager.speed < this.minimumSpeed) {
+      return;
+    }
+
+    const course = this.locationManager.course;
+    const mapHeading = this.mapComponent.getCompassHeading() * MathUtils.RadToDeg;
+
+    this.samples.push({
+      locationManagerError: angleDifferenceDegrees(this.locationManager.getHeading('true'), course),
+      mapError: angleDifferenceDegrees(mapHeading, course),
+    });
+    this.updateReportText();
+  }
+
+  private exceedsThresholds(statistics: HeadingErrorStatistics): boolean {
+    return Math.abs(statistics.meanOffset) > this.offsetThreshold || statistics.spread > this.spreadThreshold;
+  }
+
+  private updateReportText() {
+    if (this.reportText) {
+      this.reportText.text = this.getReportText();
+    }
+  }
+}
+
+function getStatistics(errors: number[]): HeadingErrorStatistics {
+  return {
+    meanOffset: circularMeanDegrees(errors),
+    spread: circularStandardDeviationDegrees(errors),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * HeadingFilter - Circular smoothing of a heading
+ *
+ * Averaging headings as plain numbers fails at the wrap-around: the average of 359° and 1° would be 180°.
+ * This filter smooths the heading as a unit vector (east, north) with an exponential moving average and turns
+ * the result back into an angle, so it passes through north like any other direction. The smoothing is defined
+ * by a time constant rather than a per-frame factor, so it behaves the same at any frame rate: after a sudden
+ * turn, the filtered heading has covered about 63% of the turn after one time constant.
+ *
+ * Key Features:
+ * - Exponential smoothing on unit vectors, correct across 0/360 degrees
+ * - Frame-rate independent, configurable time constant (0 disables the smoothing)
+ */
+
+import { directionDegrees } from "./GeoMath";
+
+export class HeadingFilter {
+
+  /** Time constant in seconds, the latency of the filter. 0 passes the heading through unfiltered */
+  smoothingTime: number;
+
+  /** Filtered heading in degrees in the range [0, 360) */
+  heading: number = 0;
+
+  /** Filtered heading as a vector, not normalized */
+  private east: number = 0;
+  private north: number = 0;
+
+  private initialized: boolean = false;
+
+  /**
+   * @param smoothingTime Time constant in seconds, 0 disables the smoothing
+   */
+  constructor(smoothingTime: number = 0.2) {
+    this.smoothingTime = smoothingTime;
+  }
+
+  /**
+   * Applies a new heading measurement. The first measurement after a reset is taken as is.
+   * @param heading Measured heading in degrees
+   * @param deltaTime Time since the previous measurement in seconds
+   * @returns The filtered heading in degrees in the range [0, 360)
+   */
+  update(heading: number, deltaTime: number): number {
+    const east = Math.sin(heading * MathUtils.DegToRad);
+    const north = Math.cos(heading * MathUtils.DegToRad);
+
+    // Fraction of the way to the new measurement, so that the response doesn't depend on the frame rate
+    const gain = !this.initialized || this.smoothingTime <= 0 ? 1 : 1 - Math.exp(-Math.max(0, deltaTime) / this.smoothingTime);
+    this.east += gain * (east - this.east);
+    this.north += gain * (north - this.north);
+    this.initialized = true;
+
+    // Keep the previous heading while the vector passes through zero, e.g. during a 180 degree flip
+    if (this.east * this.east + this.north * this.north > 1e-12) {
+      this.heading = directionDegrees(this.east, this.north);
+    }
+    return this.heading;
+  }
+
+  /**
+   * Forgets the filter state, so the next measurement is taken as is.
+   */
+  reset() {
+    this.east = 0;
+    this.north = 0;
+    this.heading = 0;
+    this.initialized = false;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * HeadingJitter - Measures how much a compass heading jitters while the head is still
+ *
+ * The jitter is the spread of the heading around a smoothed copy of itself. A real head turn also moves the heading
+ * away from the smoothed value, which would count as jitter, so samples are only taken while the head (the camera)
+ * turns slower than a threshold. After a turn, the smoothed heading first has to settle on the new direction before
+ * sampling resumes.
+ *
+ * Key Features:
+ * - Circular standard deviation of the heading around its smoothed value, over a window of recent samples
+ * - Ignores the heading while the head turns, so looking around doesn't count as a disturbed compass
+ */
+
+import WorldCameraFinderProvider from "SpectaclesInteractionKit.lspkg/Providers/CameraProvider/WorldCameraFinderProvider";
+import { angleDifferenceDegrees, circularStandardDeviationDegrees, directionDegrees } from "./GeoMath";
+import { HeadingFilter } from "./HeadingFilter";
+import { RingBuffer } from "./RingBuffer";
+
+/** Time constant of the filter the jitter is measured against, in seconds */
+const DEFAULT_SMOOTHING_TIME = 0.5;
+
+/** Head turn rate above which the heading is not sampled, in degrees per second */
+const DEFAULT_MAX_HEAD_TURN_RATE = 10;
+
+export class HeadingJitter {
+
+  /** Head turn rate above which the heading is not sampled, in degrees per second */
+  maxHeadTurnRate: number;
+
+  /** Deviations of the heading from the smoothed heading, in degrees */
+  private samples: RingBuffer<number>;
+
+  private filter: HeadingFilter;
+
+  private camera = WorldCameraFinderProvider.getInstance();
+
+  /** Yaw of the camera at the previous update in degrees, null before the first update */
+  private lastHeadYaw: number | null = null;
+
+  /** Time the head has been still since the last turn, in seconds */
+  private stillTime: number = 0;
+
+  /**
+   * @param window Number of recent samples the jitter is computed over
+   * @param smoothingTime Time constant of the filter the jitter is measured against, in seconds
+   * @param maxHeadTurnRate Head turn rate above which the heading is not sampled, in degrees per second
+   */
+  constructor(window: number, smoothingTime: number = DEFAULT_SMOOTHING_TIME,
+    maxHeadTurnRate: number = DEFAULT_MAX_HEAD_TURN_RATE) {
+    this.samples = new RingBuffer<number>(window);
+    this.filter = new HeadingFilter(smoothingTime);
+    this.maxHeadTurnRate = maxHeadTurnRate;
+  }
+
+  /** Number of samples the jitter is currently computed over */
+  get sampleCount(): number {
+    return this.samples.size;
+  }
+
+  /**
+   * Applies a new heading measurement. It is only sampled when the head is still and the smoothed heading has
+   * settled since the last head turn.
+   * @param heading Measured heading in degrees
+   * @param deltaTime Time since the previous measurement in seconds
+   */
+  update(heading: number, deltaTime: number) {
+    const forward = this.camera.getTransform().forward;
+    const headYaw = directionDegrees(forward.x, -forward.z);
+    const turnRate = this.lastHeadYaw !== null && deltaTime > 0 ?
+      Math.abs(angleDifferenceDegrees(headYaw, this.lastHeadYaw)) / deltaTime : 0;
+    this.lastHeadYaw = headYaw;
+
+    if (turnRate > this.maxHeadTurnRate) {
+      this.stillTime = 0;
+      this.filter.reset();
+      return;
+    }
+
+    const smoothedHeading = this.filter.update(heading, deltaTime);
+    this.stillTime += Math.max(0, deltaTime);
+    if (this.stillTime >= this.filter.smoothingTime) {
+      this.samples.push(angleDifferenceDegrees(heading, smoothedHeading));
+    }
+  }
+
+  /**
+   * Heading jitter over the recent samples, the circular standard deviation around the smoothed heading.
+   * @returns The jitter in degrees, 0 without samples
+   */
+  getJitter(): number {
+    return circularStandardDeviationDegrees(this.samples.toArray());
+  }
+
+  /**
+   * Clears the samples and the smoothed heading.
+   */
+  clear() {
+    this.samples.clear();
+    this.filter.reset();
+    this.lastHeadYaw = null;
+    this.stillTime = 0;
+  }
+}
@@ -2,55 +2,345 @@
  * LocationManager - Manages device location tracking and orientation data for Snap Spectacles
  * 
  * This component provides access to the device's geographic location and compass heading using
- * the Lens Studio GeoLocation API. It continuously tracks the user's position with high accuracy
- * (Navigation mode), updates location data every second, and processes orientation updates for
+ * the Lens Studio GeoLocation API. It continuously tracks the user's position with the accuracy and
+ * update interval of the selected profile (by default Navigation accuracy every second, optionally
+ * adapting the interval to whether the user is moving), and processes orientation updates for
  * compass heading. The component stores location data including latitude, longitude, altitude,
- * accuracy metrics, and heading, then notifies content managers when new data is available.
+ * accuracy metrics, and heading, then publishes each new position as a LocationFix through the
+ * LocationSource interface and registers itself in the LocationSourceRegistry as 'spectacles'.
  * 
  * Key Features:
- * - High-accuracy location tracking using Navigation accuracy mode
- * - Continuous location updates every second via repeating events
+ * - Location profiles (navigation, pedestrian, low-power) choosing the accuracy mode and update interval
+ * - Continuous location updates via repeating events, optionally polling faster while moving and
+ *   backing off while stationary
  * - Real-time compass heading from orientation sensor
+ * - Magnetic declination at the current position (World Magnetic Model), to convert the heading
+ *   between true and magnetic north
  * - Location source tracking (GNSS, WiFi, Fused, etc.)
  * - Editor compatibility with heading inversion fix
  * - Utility methods for location source formatting and angle conversion
+ * - LocationSource implementation with onFix and onHeadingUpdate events
+ * - Optional constant-velocity Kalman filter stage providing filtered position, speed and course,
+ *   with the raw values still available
+ * - Speed and course over ground, distance travelled and elapsed time derived from consecutive fixes
+ * - External input mode in which positions and headings are injected (e.g. by LocationReplaySource)
+ *   instead of read from the device
  */
 
-import { FloatingDetailsUIContentManager } from "./FloatingDetailsUIContentManager";
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { createLocationFix, LocationFix, LocationSource } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { convertHeading, getMagneticDeclination, HeadingReference } from "./MagneticModel";
+import { MotionTracker } from "./MotionTracker";
+import { PositionKalmanFilter } from "./PositionKalmanFilter";
 
 // Import the required Raw Location Module from Lens Studio
 require('LensStudio:RawLocationModule');
 
+/** A location profile: the accuracy requested from the LocationService and the time between position requests */
+export type LocationProfile = {
+  name: string;                       // User-friendly name of the profile
+  accuracy: GeoLocationAccuracy;      // Accuracy mode of the LocationService
+  interval: number;                   // Time between position requests in seconds
+};
+
+/** Available location profiles by id */
+export const LOCATION_PROFILES: { [profileId: string]: LocationProfile } = {
+  'navigation': { name: 'Navigation', accuracy: GeoLocationAccuracy.Navigation, interval: 1.0 },
+  'pedestrian': { name: 'Pedestrian', accuracy: GeoLocationAccuracy.High, interval: 2.0 },
+  'low-power': { name: 'Low power', accuracy: GeoLocationAccuracy.Low, interval: 10.0 },
+};
+
 @component
-export class LocationManager extends BaseScriptComponent {
+export class LocationManager extends BaseScriptComponent implements LocationSource {
+
+  /** Id under which the LocationManager is registered in the LocationSourceRegistry */
+  static readonly SOURCE_ID = 'spectacles';
+
+  readonly sourceId: string = LocationManager.SOURCE_ID;
+
+  /** Location profile choosing the accuracy mode and update interval (see LOCATION_PROFILES) */
+  @input
+  @widget(new ComboBoxWidget([
+    new ComboBoxItem('Navigation', 'navigation'),
+    new ComboBoxItem('Pedestrian', 'pedestrian'),
+    new ComboBoxItem('Low power', 'low-power'),
+  ]))
+  locationProfile: string = 'navigation';
+
+  /** Whether to poll faster while the user is moving and back off while stationary, instead of the fixed profile interval */
+  @input
+  adaptivePolling: boolean = false;
+
+  /** Update interval while moving, in seconds */
+  @input
+  @showIf("adaptivePolling", true)
+  movingInterval: number = 1.0;
 
-  /** Reference to FloatingDetailsUIContentManager component */
+  /** Longest update interval while stationary, in seconds. The interval doubles per stationary update up to this value */
   @input
-  floatingDetailsUIContentManager!: FloatingDetailsUIContentManager
+  @showIf("adaptivePolling", true)
+  stationaryInterval: number = 8.0;
 
-  /** Properties to store the user's location data */
+  /** Speed above which the user is considered to be moving (for adaptive polling and course-up maps), in meters per second */
+  @input
+  movingSpeedThreshold: number = 0.5;
+
+  /**
+   * North reference of the heading reported by the platform. The platform doesn't document it; when the
+   * HeadingDiagnostics report a mean offset close to the declination, the other reference is the right one
+   */
+  @input
+  @widget(new ComboBoxWidget([
+    new ComboBoxItem('Magnetic north', 'magnetic'),
+    new ComboBoxItem('True north', 'true'),
+  ]))
+  platformHeadingReference: string = 'magnetic';
+
+  /** Whether to smooth positions with a constant-velocity Kalman filter before publishing them */
+  @input
+  useKalmanFilter: boolean = false;
+
+  /** Kalman filter process noise (random acceleration in m²/s³). Higher values follow changes faster, lower values smooth more */
+  @input
+  @showIf("useKalmanFilter", true)
+  kalmanProcessNoise: number = 0.5;
+
+  /** Properties to store the user's location data (raw values as reported by the LocationService) */
   locationSource: string = '';        // Source of location data (NOT_AVAILABLE, GNSS_RECEIVER, WIFI_POSITIONING_SYSTEM, FUSED_LOCATION)
   latitude: number = 0;               // Latitude in degrees
   longitude: number = 0;              // Longitude in degrees
   horizontalAccuracy: number = 0;     // Accuracy of lat/long in meters
   altitude: number = 0;               // Altitude in meters
   verticalAccuracy: number = 0;       // Accuracy of altitude in meters
-  heading: number = 0;                // Heading in degrees
+  heading: number = 0;                // Heading in degrees, relative to platformHeadingReference
+  magneticDeclination: number = 0;    // Magnetic declination at the last position in degrees, positive when magnetic north is east of true north
+
+  /** Properties to store the Kalman-filtered location data, only updated when useKalmanFilter is enabled */
+  filteredLatitude: number = 0;       // Filtered latitude in degrees
+  filteredLongitude: number = 0;      // Filtered longitude in degrees
+  filteredHorizontalAccuracy: number = 0; // Accuracy of the filtered lat/long in meters
+
+  /** Properties to store the motion of the user, derived from the published fixes */
+  speed: number = 0;                  // Speed over ground in meters per second (Kalman-filtered when enabled)
+  course: number = 0;                 // Course over ground in degrees clockwise from north (Kalman-filtered when enabled)
+  distanceTravelled: number = 0;      // Distance travelled since the first fix (or resetTrip()) in meters
+  elapsedTime: number = 0;            // Time since the first fix (or resetTrip()) in seconds
 
   /** Service that provides access to device location. */
   private locationService: LocationService;
   
+  /** Kalman filter used when useKalmanFilter is enabled */
+  private kalmanFilter: PositionKalmanFilter;
+
   /** Event to repeatedly update user location. */
   private repeatProcessGeoPositionEvent: DelayedCallbackEvent;
 
+  /** Whether location updates are currently being requested */
+  private running: boolean = false;
+
+  /** The most recent location fix, as published (Kalman-filtered when enabled) */
+  private lastFix: LocationFix = null;
+
+  /** The most recent location fix with the raw values as reported by the LocationService */
+  private lastRawFix: LocationFix = null;
+
+  /** Whether positions and headings are injected instead of read from the device */
+  private externalInputActive: boolean = false;
+
+  /** The active location profile */
+  private activeProfile: LocationProfile = LOCATION_PROFILES['navigation'];
+
+  /** Current time between position requests in seconds */
+  private currentInterval: number = 1.0;
+
+  /** Timestamp of the last device fix, to only adapt the polling interval on new positions */
+  private lastPolledTimestamp: number = 0;
+
+  /** Derives speed, course, distance and elapsed time from the published fixes */
+  private motionTracker: MotionTracker = new MotionTracker();
+
+  private onFixEvent = new Event<LocationFix>();
+  public onFix = this.onFixEvent.publicApi();
+
+  /** Invoked with every fix before the Kalman filter, the same fix as onFix when the filter is disabled */
+  private onRawFixEvent = new Event<LocationFix>();
+  public onRawFix = this.onRawFixEvent.publicApi();
+
+  private onHeadingUpdateEvent = new Event<number>();
+  public onHeadingUpdate = this.onHeadingUpdateEvent.publicApi();
+
   onAwake() {
+    this.kalmanFilter = new PositionKalmanFilter(this.kalmanProcessNoise);
+    this.setProfile(this.locationProfile);
+
+    LocationSourceRegistry.getInstance().register(this);
+
     this.createEvent('OnStartEvent').bind(() => {
-      this.configureLocationManager();
+      this.start();
     });
   }
-  
+
+  /**
+   * Starts location tracking. Configures the location service on first use.
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    if (!this.locationService) {
+      this.configureLocationManager();
+    } else {
+      this.repeatProcessGeoPositionEvent.reset(0.0);
+    }
+  }
+
+  /**
+   * Stops requesting location updates. Heading updates keep coming in, as they are pushed by the LocationService.
+   */
+  stop() {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getLastFix(): LocationFix | null {
+    return this.lastFix;
+  }
+
+  /**
+   * The most recent fix with the raw values as reported by the LocationService, before the Kalman filter.
+   */
+  getLastRawFix(): LocationFix | null {
+    return this.lastRawFix;
+  }
+
+  /**
+   * Returns the heading relative to true or magnetic north, converted with the magnetic declination at the
+   * last position. Before the first position the declination is unknown and the heading is returned unconverted.
+   * @param reference North reference of the returned heading
+   * @returns Heading in degrees in the range [0, 360)
+   */
+  getHeading(reference: HeadingReference): number {
+    return convertHeading(this.heading, this.platformHeadingReference as HeadingReference, reference, this.magneticDeclination);
+  }
+
+  /**
+   * Activates a location profile, which sets the accuracy mode of the LocationService and the update interval.
+   * @param profileId Id of the profile (see LOCATION_PROFILES)
+   * @returns false when the profile does not exist, in which case the active profile is kept
+   */
+  setProfile(profileId: string): boolean {
+    const profile = LOCATION_PROFILES[profileId];
+    if (!profile) {
+      print('setProfile() - Warning: unknown location profile: ' + profileId);
+      return false;
+    }
+
+    this.locationProfile = profileId;
+    this.activeProfile = profile;
+    this.currentInterval = this.adaptivePolling ? this.movingInterval : profile.interval;
+    if (this.locationService) {
+      this.locationService.accuracy = profile.accuracy;
+    }
+    return true;
+  }
+
+  /**
+   * Returns the active location profile.
+   */
+  getActiveProfile(): LocationProfile {
+    return this.activeProfile;
+  }
+
   /**
-   * Sets up the location service with high accuracy (Navigation) for precise location tracking,
+   * Returns the current time between position requests, which changes with the movement of the user
+   * when adaptive polling is enabled.
+   * @returns The interval in seconds
+   */
+  getCurrentInterval(): number {
+    return this.currentInterval;
+  }
+
+  /**
+   * Switches between device data and injected data. While external input is active, positions and headings
+   * from the LocationService are ignored and only data passed to injectFix() and injectHeading() is published,
+   * so everything listening to the LocationManager behaves as if the injected data came from the device.
+   * @param active true to use injected data, false to go back to device data
+   */
+  setExternalInputActive(active: boolean) {
+    if (this.externalInputActive === active) {
+      return;
+    }
+    this.externalInputActive = active;
+
+    // The injected positions are unrelated to the device positions, so don't let the filter blend them.
+    this.kalmanFilter.reset();
+    this.resetTrip();
+
+    print('setExternalInputActive() - ' + (active ? 'Using injected location data' : 'Using device location data'));
+  }
+
+  isExternalInputActive(): boolean {
+    return this.externalInputActive;
+  }
+
+  /**
+   * Whether the user is moving, i.e. the speed over ground is above movingSpeedThreshold.
+   */
+  isMoving(): boolean {
+    return this.speed >= this.movingSpeedThreshold;
+  }
+
+  /**
+   * Starts a new trip: resets the distance travelled and the elapsed time.
+   */
+  resetTrip() {
+    this.motionTracker.reset();
+    this.distanceTravelled = 0;
+    this.elapsedTime = 0;
+  }
+
+  /**
+   * Publishes a fix as if it was reported by the device. Ignored unless external input is active.
+   * The source id of the fix is replaced by the id of the LocationManager.
+   * @param fix The fix to publish
+   */
+  injectFix(fix: LocationFix) {
+    if (!this.externalInputActive) {
+      return;
+    }
+
+    this.updatePosition(
+      fix.locationSource,
+      fix.latitude,
+      fix.longitude,
+      fix.horizontalAccuracy,
+      fix.altitude,
+      fix.verticalAccuracy,
+      fix.timestamp
+    );
+  }
+
+  /**
+   * Publishes a heading as if it was reported by the compass. Ignored unless external input is active.
+   * @param heading Heading in degrees, already corrected for the editor heading inversion
+   */
+  injectHeading(heading: number) {
+    if (!this.externalInputActive) {
+      return;
+    }
+
+    this.heading = heading;
+    this.onHeadingUpdateEvent.invoke(this.heading);
+  }
+
+  /**
+   * Sets up the location service with the accuracy of the active profile,
    * registers callbacks for orientation updates, and creates a repeating event to continuously
    * update the user's geographic position
    */
@@ -61,9 +351,9 @@ export class LocationManager extends BaseScriptComponent {
     // (https://developers.snap.com/lens-studio/api/lens-scripting/classes/Built-In.LocationService.html)
     this.locationService = GeoLocation.createLocationService();
 
-    // Set highest accuracy level (Navigation) for precise location tracking 
+    // Set the accuracy level of the active profile (Navigation by default, for precise location tracking)
     // (https://developers.snap.com/lens-studio/api/lens-scripting/enums/Built-In.GeoLocationAccuracy.html)
-    this.locationService.accuracy = GeoLocationAccuracy.Navigation;
+    this.locationService.accuracy = this.activeProfile.accuracy;
 
     // Register the callback for orientation (compass heading) updates.
     this.locationService.onNorthAlignedOrientationUpdate.add(
@@ -82,24 +372,32 @@ export class LocationManager extends BaseScriptComponent {
   /**
    * Updates the user's location by requesting the current position from the LocationService,
    * stores the received location data (latitude, longitude, altitude, accuracy),
-   * and schedules the next location update after 1 second.
+   * and schedules the next location update after the current interval. Does nothing when stopped.
    */
   private processGeoPosition() {
     // print('processGeoPosition()');
 
+    if (!this.running) {
+      return;
+    }
+
     // Asynchronously request the current GeoPosition from the LocationService.
     this.locationService.getCurrentPosition(
       (geoPosition) => {
-        // Store all location data from the position object
-        this.locationSource = geoPosition.locationSource;
-        this.latitude = geoPosition.latitude;
-        this.longitude = geoPosition.longitude;
-        this.horizontalAccuracy = geoPosition.horizontalAccuracy;
-        this.altitude = geoPosition.altitude;
-        this.verticalAccuracy = geoPosition.verticalAccuracy;
-
-        // Notify that new location data is available.
-        this.newLocationManagerDataAvailable();
+        if (this.externalInputActive) {
+          return;
+        }
+
+        this.updatePosition(
+          geoPosition.locationSource,
+          geoPosition.latitude,
+          geoPosition.longitude,
+          geoPosition.horizontalAccuracy,
+          geoPosition.altitude,
+          geoPosition.verticalAccuracy,
+          geoPosition.timestamp.getTime()
+        );
+        this.updatePollingInterval(geoPosition.timestamp.getTime());
       },
       (error) => {
         print('processGeoPosition() error: ' + error);
@@ -107,7 +405,116 @@ export class LocationManager extends BaseScriptComponent {
     );
 
     // Schedule the next location update.
-    this.repeatProcessGeoPositionEvent.reset(1.0);
+    this.repeatProcessGeoPositionEvent.reset(this.currentInterval);
+  }
+
+  /**
+   * With adaptive polling, sets the interval to movingInterval while the user is moving,
+   * and otherwise doubles it up to stationaryInterval.
+   * Without adaptive polling, uses the interval of the active profile.
+   * @param timestamp Time of the device fix that was just processed
+   */
+  private updatePollingInterval(timestamp: number) {
+    if (!this.adaptivePolling) {
+      this.currentInterval = this.activeProfile.interval;
+      return;
+    }
+
+    if (timestamp <= this.lastPolledTimestamp) {
+      // No new position, keep the current interval.
+      return;
+    }
+    this.lastPolledTimestamp = timestamp;
+
+    if (this.isMoving()) {
+      this.currentInterval = this.movingInterval;
+    } else {
+      this.currentInterval = Math.min(this.stationaryInterval, this.currentInterval * 2);
+    }
+  }
+
+  /**
+   * Stores the location data, runs it through the Kalman filter if enabled, and publishes the new fix.
+   * @param timestamp Time of the position in milliseconds since epoch
+   */
+  private updatePosition(
+    locationSource: string,
+    latitude: number,
+    longitude: number,
+    horizontalAccuracy: number,
+    altitude: number,
+    verticalAccuracy: number,
+    timestamp: number
+  ) {
+    // Store all location data
+    this.locationSource = locationSource;
+    this.latitude = latitude;
+    this.longitude = longitude;
+    this.horizontalAccuracy = horizontalAccuracy;
+    this.altitude = altitude;
+    this.verticalAccuracy = verticalAccuracy;
+    this.magneticDeclination = getMagneticDeclination(latitude, longitude, altitude, new Date(timestamp));
+
+    this.lastRawFix = createLocationFix(
+      this.sourceId,
+      this.latitude,
+      this.longitude,
+      this.horizontalAccuracy,
+      this.altitude,
+      this.verticalAccuracy,
+      this.locationSource,
+      timestamp
+    );
+
+    // Publish the filtered position instead of the raw one if the Kalman filter is enabled.
+    this.lastFix = this.useKalmanFilter ? this.applyKalmanFilter(this.lastRawFix) : this.lastRawFix;
+
+    this.updateMotion(this.lastFix);
+
+    // Notify that new location data is available.
+    this.newLocationManagerDataAvailable();
+  }
+
+  /**
+   * Runs the fix through the Kalman filter and stores the filtered values.
+   * @param fix The fix with the raw values, left unchanged
+   * @returns A new fix with the filtered position and horizontal accuracy
+   */
+  private applyKalmanFilter(fix: LocationFix): LocationFix {
+    this.kalmanFilter.processNoise = this.kalmanProcessNoise;
+    this.kalmanFilter.update(fix.latitude, fix.longitude, fix.horizontalAccuracy, fix.timestamp);
+
+    this.filteredLatitude = this.kalmanFilter.latitude;
+    this.filteredLongitude = this.kalmanFilter.longitude;
+    this.filteredHorizontalAccuracy = this.kalmanFilter.horizontalAccuracy;
+    this.speed = this.kalmanFilter.speed;
+    this.course = this.kalmanFilter.course;
+
+    return createLocationFix(
+      fix.sourceId,
+      this.filteredLatitude,
+      this.filteredLongitude,
+      this.filteredHorizontalAccuracy,
+      fix.altitude,
+      fix.verticalAccuracy,
+      fix.locationSource,
+      fix.timestamp
+    );
+  }
+
+  /**
+   * Updates the distance travelled and elapsed time, and the speed and course unless the Kalman filter provides them.
+   * @param fix The published fix
+   */
+  private updateMotion(fix: LocationFix) {
+    this.motionTracker.update(fix);
+    this.distanceTravelled = this.motionTracker.distance;
+    this.elapsedTime = this.motionTracker.elapsedTime;
+
+    if (!this.useKalmanFilter) {
+      this.speed = this.motionTracker.speed;
+      this.course = this.motionTracker.course;
+    }
   }
 
   /**
@@ -118,6 +525,10 @@ export class LocationManager extends BaseScriptComponent {
   private processNorthAlignedOrientationUpdate(northAlignedOrientationQuaternion) {
     // print('processNorthAlignedOrientationUpdate()');
 
+    if (this.externalInputActive) {
+      return;
+    }
+
     // Calculate the heading in degrees from the north-aligned quaternion.
     this.heading = GeoLocation.getNorthAlignedHeading(northAlignedOrientationQuaternion);
 
@@ -128,13 +539,13 @@ export class LocationManager extends BaseScriptComponent {
       this.heading = -this.heading;
     }
 
-    // Notify that new data is available.
-    this.newLocationManagerDataAvailable();
+    // Notify listeners that a new heading is available.
+    this.onHeadingUpdateEvent.invoke(this.heading);
   }
 
   /**
    * Callback function for when new location data is available.
-   * Updates the content manager with the new location data.
+   * Publishes the new fix to all onFix listeners.
    */
   private newLocationManagerDataAvailable() {
     // Log the data.
@@ -147,10 +558,9 @@ export class LocationManager extends BaseScriptComponent {
     //   ' verticalAccuracy: ' + this.verticalAccuracy.toFixed(0) + 'm' +
     //   ' heading: ' + this.heading.toFixed(0) + '°');
 
-    // Notify the content manager to update the UI with the new location data.
-    if (this.floatingDetailsUIContentManager) {
-      this.floatingDetailsUIContentManager.updateContent();
-    }
+    // Notify listeners (UI, map, ...) of the new location data.
+    this.onRawFixEvent.invoke(this.lastRawFix);
+    this.onFixEvent.invoke(this.lastFix);
   }
 
   /**
@@ -0,0 +1,334 @@
+/**
+ * LocationReplaySource - Plays back a recorded location session as a live location source
+ *
+ * This component replays a session recorded by the LocationSessionRecorder (JSON Lines, see LocationSession),
+ * so a walk recorded on Spectacles can be replayed in the Lens Studio editor to reproduce positioning issues.
+ * The fixes and headings of one recorded source are played back with their original timing, in real time or
+ * faster/slower with a speed multiplier, and can be paused and seeked. Replayed fixes are re-stamped with the
+ * current time, so age and speed checks behave as they did during the walk. At any other playback speed than 1
+ * the time between the fixes shrinks or grows with it, so the derived speed and course and the speed check of the
+ * FixQualityGate are off by the same factor.
+ *
+ * The replay registers itself in the LocationSourceRegistry as 'replay'. When driveLocationManager is enabled,
+ * it also switches the LocationManager to external input and injects the replayed fixes and headings into it,
+ * points the user pin of the map at the LocationManager and overrides its heading, so the UIs, the map and the
+ * hand-locked compass behave as during a live walk. It leaves the LocationManager alone when another source
+ * (such as the RouteSimulatorSource) already drives it.
+ *
+ * Key Features:
+ * - Session loaded from a JSON Lines or GPX text input, from the LocationSessionRecorder, or from script
+ * - Real-time playback with a speed multiplier, pause/resume, seek and looping
+ * - LocationSource implementation with onFix and onHeadingUpdate events
+ * - Optionally drives the LocationManager and the map heading as if the data came from the device
+ */
+
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { gpxToSessionEntries, parseGpx } from "./Gpx";
+import { LocationManager } from "./LocationManager";
+import { fixEntryToLocationFix, parseSessionJsonLines, SessionEntry } from "./LocationSession";
+import { LocationSessionRecorder } from "./LocationSessionRecorder";
+import { LocationFix, LocationSource } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+
+@component
+export class LocationReplaySource extends BaseScriptComponent implements LocationSource {
+
+  /** Id under which the replay is registered in the LocationSourceRegistry */
+  static readonly SOURCE_ID = 'replay';
+
+  readonly sourceId: string = LocationReplaySource.SOURCE_ID;
+
+  /** Recorded session in JSON Lines format, or a GPX track. When empty, the session of the recorder is replayed */
+  @input
+  @widget(new TextAreaWidget())
+  public sessionText: string = '';
+
+  /** Recorder whose previous session (persisted by the previous run of the Lens) is replayed when no session text is given */
+  @input
+  @allowUndefined
+  public recorder: LocationSessionRecorder;
+
+  /** Id of the recorded source whose fixes and headings are replayed (GPX tracks are loaded under this id) */
+  @input
+  public replayedSourceId: string = 'spectacles';
+
+  /** Playback speed, 1 is real time. The derived speed and course are only right at 1 */
+  @input
+  public playbackSpeed: number = 1;
+
+  /** Whether to start over when the end of the session is reached */
+  @input
+  public loop: boolean = false;
+
+  /** Whether to start playing when the Lens starts */
+  @input
+  public playOnStart: boolean = false;
+
+  /** Whether to inject the replayed data into the LocationManager, so everything behaves as during a live walk */
+  @input
+  public driveLocationManager: boolean = true;
+
+  /** LocationManager that is driven by the replay */
+  @input
+  @showIf("driveLocationManager", true)
+  @allowUndefined
+  public locationManager: LocationManager;
+
+  /** Map whose user pin location and heading are driven by the replay */
+  @input
+  @showIf("driveLocationManager", true)
+  @allowUndefined
+  public mapComponent: MapComponent;
+
+  /** Entries of the replayed source, sorted by timestamp */
+  private entries: SessionEntry[] = [];
+
+  /** Index of the next entry to play */
+  private nextEntryIndex: number = 0;
+
+  /** Playback position in milliseconds since the first entry */
+  private playbackPosition: number = 0;
+
+  private running: boolean = false;
+
+  /** Whether the replay switched the LocationManager to external input, so only then it drives and releases it */
+  private claimedLocationManager: boolean = false;
+
+  /** Location source of the map user pin before the replay took it over */
+  private previousMapLocationSourceId: string = '';
+
+  /** The most recently replayed fix */
+  private lastFix: LocationFix = null;
+
+  private onFixEvent = new Event<LocationFix>();
+  public onFix = this.onFixEvent.publicApi();
+
+  private onHeadingUpdateEvent = new Event<number>();
+  public onHeadingUpdate = this.onHeadingUpdateEvent.publicApi();
+
+  onAwake() {
+    LocationSourceRegistry.getInstance().register(this);
+
+    this.createEvent('UpdateEvent').bind(() => {
+      this.onUpdate();
+    });
+
+    this.createEvent('OnStartEvent').bind(() => {
+      const sessionText = this.sessionText.trim();
+      if (sessionText.charAt(0) === '<') {
+        this.loadGpx(sessionText);
+      } else if (sessionText !== '') {
+        this.loadSession(sessionText);
+      } else if (this.recorder) {
+        this.loadEntries(this.recorder.getPreviousSessionEntries());
+      }
+
+      if (this.playOnStart) {
+        this.start();
+      }
+    });
+  }
+
+  /**
+   * Loads a session from a JSON Lines document and rewinds to its start.
+   * @param jsonLines The recorded session
+   */
+  loadSession(jsonLines: string) {
+    this.loadEntries(parseSessionJsonLines(jsonLines));
+  }
+
+  /**
+   * Loads the tracks of a GPX document as the session and rewinds to its start. Headings are derived
+   * from the direction of travel.
+   * @param gpxText The GPX document
+   */
+  loadGpx(gpxText: string) {
+    this.loadEntries(gpxToSessionEntries(parseGpx(gpxText), this.replayedSourceId));
+  }
+
+  /**
+   * Loads the entries of a session and rewinds to its start. Only the entries of the replayed source are kept.
+   * @param entries The entries of the session, in any order
+   */
+  loadEntries(entries: SessionEntry[]) {
+    this.entries = entries
+      .filter((entry) => entry.sourceId === this.replayedSourceId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    this.nextEntryIndex = 0;
+    this.playbackPosition = 0;
+
+    print('loadEntries() - Loaded ' + this.entries.length + ' entries of ' + this.replayedSourceId +
+      ', duration ' + this.getDuration().toFixed(0) + 's');
+  }
+
+  /**
+   * Starts or resumes playback. Takes over the LocationManager and the map user pin when driveLocationManager is
+   * enabled, unless another source already drives the LocationManager.
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    if (this.entries.length === 0) {
+      print('start() - Warning: no session loaded, nothing to replay.');
+      return;
+    }
+
+    if (this.driveLocationManager && !this.claimedLocationManager && this.locationManager &&
+      !this.locationManager.isExternalInputActive()) {
+      this.claimedLocationManager = true;
+      this.locationManager.setExternalInputActive(true);
+      if (this.mapComponent) {
+        this.previousMapLocationSourceId = this.mapComponent.getUserLocationSourceId();
+        this.mapComponent.setUserLocationSource(this.locationManager.sourceId);
+      }
+    }
+
+    // Start over when the previous playback reached the end.
+    if (this.nextEntryIndex >= this.entries.length) {
+      this.seek(0);
+    }
+
+    this.running = true;
+  }
+
+  /**
+   * Stops playback and gives the LocationManager and the map user pin back to the device.
+   * The playback position is kept, so start() continues where playback stopped.
+   */
+  stop() {
+    this.pause();
+
+    if (this.claimedLocationManager) {
+      this.claimedLocationManager = false;
+      this.locationManager.setExternalInputActive(false);
+      if (this.mapComponent) {
+        this.mapComponent.setUserHeadingOverride(null);
+        this.mapComponent.setUserLocationSource(this.previousMapLocationSourceId);
+      }
+    }
+  }
+
+  /**
+   * Pauses playback. The last replayed position and heading stay in effect.
+   */
+  pause() {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getLastFix(): LocationFix | null {
+    return this.lastFix;
+  }
+
+  /**
+   * Moves the playback position and immediately replays the last fix and heading before that position,
+   * so the UI and map jump to where the session was at that time.
+   * @param seconds Position in seconds since the start of the session
+   */
+  seek(seconds: number) {
+    this.playbackPosition = Math.max(0, Math.min(seconds, this.getDuration())) * 1000;
+    this.nextEntryIndex = 0;
+
+    let lastFixIndex = -1;
+    let lastHeadingIndex = -1;
+    while (this.nextEntryIndex < this.entries.length &&
+      this.getEntryPosition(this.entries[this.nextEntryIndex]) <= this.playbackPosition) {
+      if (this.entries[this.nextEntryIndex].type === 'fix') {
+        lastFixIndex = this.nextEntryIndex;
+      } else {
+        lastHeadingIndex = this.nextEntryIndex;
+      }
+      this.nextEntryIndex++;
+    }
+
+    if (lastFixIndex !== -1) {
+      this.playEntry(this.entries[lastFixIndex]);
+    }
+    if (lastHeadingIndex !== -1) {
+      this.playEntry(this.entries[lastHeadingIndex]);
+    }
+  }
+
+  /**
+   * Current playback position.
+   * @returns Position in seconds since the start of the session
+   */
+  getPlaybackPosition(): number {
+    return this.playbackPosition / 1000;
+  }
+
+  /**
+   * Duration of the loaded session.
+   * @returns Time between the first and the last entry in seconds, 0 when no session is loaded
+   */
+  getDuration(): number {
+    if (this.entries.length === 0) {
+      return 0;
+    }
+    return (this.entries[this.entries.length - 1].timestamp - this.entries[0].timestamp) / 1000;
+  }
+
+  /**
+   * Advances the playback position by the frame time and plays all entries up to the new position.
+   */
+  private onUpdate() {
+    if (!this.running) {
+      return;
+    }
+
+    this.playbackPosition += getDeltaTime() * 1000 * this.playbackSpeed;
+
+    while (this.nextEntryIndex < this.entries.length &&
+      this.getEntryPosition(this.entries[this.nextEntryIndex]) <= this.playbackPosition) {
+      this.playEntry(this.entries[this.nextEntryIndex]);
+      this.nextEntryIndex++;
+    }
+
+    if (this.nextEntryIndex >= this.entries.length) {
+      if (this.loop) {
+        this.seek(0);
+      } else {
+        print('onUpdate() - Reached the end of the replayed session');
+        this.pause();
+      }
+    }
+  }
+
+  /**
+   * Publishes a fix or heading entry, and injects it into the LocationManager and map when it claimed them.
+   */
+  private playEntry(entry: SessionEntry) {
+    if (entry.type === 'fix') {
+      this.lastFix = fixEntryToLocationFix(entry);
+      this.lastFix.sourceId = this.sourceId;
+      this.lastFix.timestamp = Date.now();
+
+      this.onFixEvent.invoke(this.lastFix);
+      if (this.claimedLocationManager) {
+        this.locationManager.injectFix(this.lastFix);
+      }
+      return;
+    }
+
+    this.onHeadingUpdateEvent.invoke(entry.heading);
+    if (this.claimedLocationManager) {
+      this.locationManager.injectHeading(entry.heading);
+    }
+    if (this.claimedLocationManager && this.mapComponent) {
+      this.mapComponent.setUserHeadingOverride(entry.heading * MathUtils.DegToRad);
+    }
+  }
+
+  /**
+   * Position of an entry in the session.
+   * @returns Milliseconds since the first entry
+   */
+  private getEntryPosition(entry: SessionEntry): number {
+    return entry.timestamp - this.entries[0].timestamp;
+  }
+}
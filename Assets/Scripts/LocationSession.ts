@@ -0,0 +1,164 @@
+/**
+ * LocationSession - Entry types and JSON Lines (de)serialization for recorded location sessions
+ *
+ * A location session is a time-ordered list of entries: location fixes (from any LocationSource) and
+ * heading updates. Sessions are stored and exchanged as JSON Lines, one JSON object per line, which makes
+ * them easy to append to, stream, and analyse offline (e.g. with pandas or jq).
+ *
+ * Example:
+ * {"type":"fix","sourceId":"spectacles","timestamp":1760000000000,"latitude":52.2175,"longitude":5.1695,"horizontalAccuracy":9,"altitude":15,"verticalAccuracy":30,"locationSource":"GNSS_RECEIVER"}
+ * {"type":"heading","sourceId":"spectacles","timestamp":1760000000250,"heading":87.5}
+ *
+ * Key Features:
+ * - Typed session entries for fixes and headings
+ * - Serialization to JSON Lines
+ * - Parsing of JSON Lines with validation, skipping invalid lines
+ */
+
+import { LocationFix } from "./LocationSource";
+
+/** A recorded location fix */
+export type SessionFixEntry = { type: 'fix' } & LocationFix;
+
+/** A recorded heading update */
+export type SessionHeadingEntry = {
+  type: 'heading';
+  sourceId: string;                   // Id of the source that produced the heading
+  timestamp: number;                  // Time of the heading update in milliseconds since epoch
+  heading: number;                    // Heading in degrees
+};
+
+/** A single entry of a location session */
+export type SessionEntry = SessionFixEntry | SessionHeadingEntry;
+
+/**
+ * Creates a session entry from a location fix.
+ * @param fix The fix to record
+ * @returns The session entry
+ */
+export function createFixEntry(fix: LocationFix): SessionFixEntry {
+  return {
+    type: 'fix',
+    sourceId: fix.sourceId,
+    timestamp: fix.timestamp,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    horizontalAccuracy: fix.horizontalAccuracy,
+    altitude: fix.altitude,
+    verticalAccuracy: fix.verticalAccuracy,
+    locationSource: fix.locationSource,
+  };
+}
+
+/**
+ * Creates a session entry from a heading update.
+ * @param sourceId Id of the source that produced the heading
+ * @param heading Heading in degrees
+ * @param timestamp Time of the heading update in milliseconds since epoch, defaults to now
+ * @returns The session entry
+ */
+export function createHeadingEntry(sourceId: string, heading: number, timestamp: number = Date.now()): SessionHeadingEntry {
+  return {
+    type: 'heading',
+    sourceId: sourceId,
+    timestamp: timestamp,
+    heading: heading,
+  };
+}
+
+/**
+ * Converts a recorded fix entry back into a LocationFix.
+ * @param entry The fix entry
+ * @returns The location fix
+ */
+export function fixEntryToLocationFix(entry: SessionFixEntry): LocationFix {
+  return {
+    sourceId: entry.sourceId,
+    timestamp: entry.timestamp,
+    latitude: entry.latitude,
+    longitude: entry.longitude,
+    horizontalAccuracy: entry.horizontalAccuracy,
+    altitude: entry.altitude,
+    verticalAccuracy: entry.verticalAccuracy,
+    locationSource: entry.locationSource,
+  };
+}
+
+/**
+ * Serializes session entries to a JSON Lines document.
+ * @param entries The entries to serialize
+ * @returns One JSON object per line, terminated by a newline (empty string for no entries)
+ */
+export function serializeSessionJsonLines(entries: SessionEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+}
+
+/**
+ * Parses a JSON Lines document into session entries. Empty lines are ignored, invalid lines are
+ * skipped with a warning. Entries are returned sorted by timestamp.
+ * @param text The JSON Lines document
+ * @returns The parsed entries
+ */
+export function parseSessionJsonLines(text: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    const trimmedLine = line.trim();
+    if (trimmedLine === '') {
+      return;
+    }
+
+    try {
+      const entry = parseSessionEntry(JSON.parse(trimmedLine));
+      if (entry === null) {
+        print('parseSessionJsonLines() - Warning: skipping invalid entry on line ' + (index + 1));
+        return;
+      }
+      entries.push(entry);
+    } catch (error) {
+      print('parseSessionJsonLines() - Warning: skipping unparsable line ' + (index + 1) + ': ' + error);
+    }
+  });
+
+  entries.sort((a, b) => a.timestamp - b.timestamp);
+  return entries;
+}
+
+/**
+ * Validates a parsed JSON object and converts it into a session entry.
+ * @param data The parsed JSON object
+ * @returns The session entry, or null when the object is not a valid entry
+ */
+function parseSessionEntry(data: any): SessionEntry | null {
+  if (data === null || typeof data !== 'object' || typeof data.timestamp !== 'number') {
+    return null;
+  }
+
+  const sourceId = typeof data.sourceId === 'string' ? data.sourceId : '';
+
+  if (data.type === 'fix') {
+    if (typeof data.latitude !== 'number' || typeof data.longitude !== 'number') {
+      return null;
+    }
+    return {
+      type: 'fix',
+      sourceId: sourceId,
+      timestamp: data.timestamp,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      horizontalAccuracy: typeof data.horizontalAccuracy === 'number' ? data.horizontalAccuracy : 0,
+      altitude: typeof data.altitude === 'number' ? data.altitude : 0,
+      verticalAccuracy: typeof data.verticalAccuracy === 'number' ? data.verticalAccuracy : 0,
+      locationSource: typeof data.locationSource === 'string' ? data.locationSource : '',
+    };
+  }
+
+  if (data.type === 'heading') {
+    if (typeof data.heading !== 'number') {
+      return null;
+    }
+    return createHeadingEntry(sourceId, data.heading, data.timestamp);
+  }
+
+  return null;
+}
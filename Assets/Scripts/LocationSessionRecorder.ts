@@ -0,0 +1,344 @@
+/**
+ * LocationSessionRecorder - Records location fixes and heading updates for offline analysis
+ *
+ * This component captures every fix of a set of location sources (by default the LocationManager and the
+ * MobileKitManager) and the heading updates of the LocationManager into a ring buffer, with timestamps.
+ * Fixes are taken directly from the sources, before any FixQualityGate and before any smoothing by the source
+ * itself (such as the LocationManager Kalman filter), so the recording shows exactly what was reported.
+ * The most recent entries are periodically persisted in the Lens persistent storage, so they survive a Lens
+ * restart: the next run restores them as the previous session and starts a new one. Sessions can be serialized
+ * to a JSON Lines document (see LocationSession) or sent to the phone over the Mobile Kit session, to compare
+ * them against ground truth afterwards.
+ *
+ * Key Features:
+ * - Ring buffer of fix and heading entries with a configurable capacity
+ * - Throttled heading recording
+ * - Periodic persistence of the most recent entries in persistent storage, restored as the previous session
+ * - JSON Lines and GPX export, and sending the session to the phone in chunks over Mobile Kit
+ */
+
+import { serializeGpx, sessionToGpx } from "./Gpx";
+import { LocationManager } from "./LocationManager";
+import {
+  createFixEntry,
+  createHeadingEntry,
+  parseSessionJsonLines,
+  serializeSessionJsonLines,
+  SessionEntry,
+} from "./LocationSession";
+import { LocationFix, LocationSource } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { MobileKitManager } from "./MobileKitManager";
+import { RingBuffer } from "./RingBuffer";
+
+/** Key under which the session is stored in persistent storage */
+const PERSISTENT_STORAGE_KEY = 'locationSession';
+
+/** Share of the persistent storage size limit the session may use */
+const PERSISTENT_STORAGE_SHARE = 0.8;
+
+/** Mobile Kit topic used when sending the session to the phone */
+const MOBILE_KIT_SESSION_TOPIC = 'location-session';
+
+/** Number of entries per Mobile Kit message when sending the session to the phone */
+const ENTRIES_PER_MOBILE_KIT_MESSAGE = 50;
+
+/** Mobile Kit topic used when sending the session to the phone as GPX */
+const MOBILE_KIT_GPX_TOPIC = 'location-session-gpx';
+
+/** Number of characters per Mobile Kit message when sending the session to the phone as GPX */
+const GPX_CHARACTERS_PER_MOBILE_KIT_MESSAGE = 8000;
+
+@component
+export class LocationSessionRecorder extends BaseScriptComponent {
+
+  /** Reference to the LocationManager to record heading updates */
+  @input
+  public locationManager: LocationManager;
+
+  /** Reference to the MobileKitManager to send the session to the phone */
+  @input
+  @allowUndefined
+  public mobileKitManager: MobileKitManager;
+
+  /** Ids of the location sources to record (see LocationSourceRegistry) */
+  @input
+  public recordedSourceIds: string[] = ['spectacles', 'mobile-kit'];
+
+  /** Whether to start recording when the Lens starts */
+  @input
+  public recordOnStart: boolean = false;
+
+  /** Maximum number of entries kept, the oldest entries are overwritten when full */
+  @input
+  public capacity: number = 5000;
+
+  /** Minimum time between recorded heading updates, in seconds */
+  @input
+  public headingRecordInterval: number = 0.5;
+
+  /** Time between saves to persistent storage, in seconds */
+  @input
+  public persistInterval: number = 10;
+
+  /** Maximum number of the most recent entries saved to persistent storage. Fewer are saved when they don't fit */
+  @input
+  public maxPersistedEntries: number = 1000;
+
+  private entries: RingBuffer<SessionEntry>;
+
+  /** Entries of the session persisted by the previous run of the Lens */
+  private previousSessionEntries: SessionEntry[] = [];
+
+  private recording: boolean = false;
+
+  /** Time of the last recorded heading update, in milliseconds since epoch */
+  private lastHeadingRecordTime: number = 0;
+
+  /** Whether entries were added since the last save to persistent storage */
+  private hasUnsavedEntries: boolean = false;
+
+  /** Event to periodically save the session to persistent storage */
+  private persistEvent: DelayedCallbackEvent;
+
+  onAwake() {
+    this.entries = new RingBuffer<SessionEntry>(this.capacity);
+    this.restoreSession();
+
+    // Attach to the sources directly (not via registry.subscribe) so fixes are recorded before any fix filter
+    const registry = LocationSourceRegistry.getInstance();
+    this.recordedSourceIds.forEach((sourceId) => {
+      const source = registry.getSource(sourceId);
+      if (source !== null) {
+        this.attachToSource(source);
+      }
+    });
+    registry.onSourceRegistered.add((source) => {
+      if (this.recordedSourceIds.indexOf(source.sourceId) !== -1) {
+        this.attachToSource(source);
+      }
+    });
+
+    if (this.locationManager) {
+      this.locationManager.onHeadingUpdate.add((heading) => this.recordHeading(heading));
+    }
+
+    this.persistEvent = this.createEvent('DelayedCallbackEvent');
+    this.persistEvent.bind(() => {
+      this.persistSession();
+      this.persistEvent.reset(this.persistInterval);
+    });
+    this.persistEvent.reset(this.persistInterval);
+
+    this.createEvent('OnStartEvent').bind(() => {
+      if (this.recordOnStart) {
+        this.startRecording();
+      }
+    });
+  }
+
+  /**
+   * Starts adding fixes and heading updates to the session.
+   */
+  startRecording() {
+    this.recording = true;
+    print('startRecording() - Recording location session');
+  }
+
+  /**
+   * Stops adding entries to the session and saves it to persistent storage.
+   */
+  stopRecording() {
+    this.recording = false;
+    this.persistSession();
+    print('stopRecording() - Stopped recording, ' + this.entries.size + ' entries in session');
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Number of entries in the current session.
+   */
+  getEntryCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the entries of the current session, from oldest to newest.
+   */
+  getEntries(): SessionEntry[] {
+    return this.entries.toArray();
+  }
+
+  /**
+   * Returns the entries of the session restored from the previous run of the Lens, from oldest to newest.
+   * The persisted copy is overwritten when the current session is saved.
+   */
+  getPreviousSessionEntries(): SessionEntry[] {
+    return this.previousSessionEntries;
+  }
+
+  /**
+   * Removes all entries from the session, including the persisted copy.
+   */
+  clearSession() {
+    this.entries.clear();
+    this.hasUnsavedEntries = true;
+    this.persistSession();
+  }
+
+  /**
+   * Serializes the current session to a JSON Lines document.
+   * @returns One JSON object per entry per line
+   */
+  toJsonLines(): string {
+    return serializeSessionJsonLines(this.entries.toArray());
+  }
+
+  /**
+   * Exports the fixes of the current session as a GPX 1.1 document, with one track per source.
+   * @returns The GPX document
+   */
+  toGpx(): string {
+    return serializeGpx(sessionToGpx(this.entries.toArray()));
+  }
+
+  /**
+   * Sends the current session to the phone over the Mobile Kit session, in chunks of JSON Lines.
+   * Each message contains the part number, the total number of parts, and the JSON Lines of that part.
+   * @returns true when all parts were handed to the Mobile Kit session
+   */
+  sendSessionToPhone(): boolean {
+    if (!this.mobileKitManager) {
+      print('sendSessionToPhone() - Warning: mobileKitManager is not assigned.');
+      return false;
+    }
+
+    const entries = this.entries.toArray();
+    const sessionId = Date.now();
+    const parts = Math.max(1, Math.ceil(entries.length / ENTRIES_PER_MOBILE_KIT_MESSAGE));
+
+    for (let part = 0; part < parts; part++) {
+      const partEntries = entries.slice(part * ENTRIES_PER_MOBILE_KIT_MESSAGE, (part + 1) * ENTRIES_PER_MOBILE_KIT_MESSAGE);
+      const sent = this.mobileKitManager.sendMessage(MOBILE_KIT_SESSION_TOPIC, {
+        sessionId: sessionId,
+        part: part + 1,
+        parts: parts,
+        jsonLines: serializeSessionJsonLines(partEntries),
+      });
+      if (!sent) {
+        return false;
+      }
+    }
+
+    print('sendSessionToPhone() - Sent ' + entries.length + ' entries in ' + parts + ' messages');
+    return true;
+  }
+
+  /**
+   * Sends the current session to the phone over the Mobile Kit session as a GPX document, split into chunks.
+   * Each message contains the part number, the total number of parts, and the text of that part; the phone
+   * concatenates the parts in order.
+   * @returns true when all parts were handed to the Mobile Kit session
+   */
+  sendGpxToPhone(): boolean {
+    if (!this.mobileKitManager) {
+      print('sendGpxToPhone() - Warning: mobileKitManager is not assigned.');
+      return false;
+    }
+
+    const gpx = this.toGpx();
+    const sessionId = Date.now();
+    const parts = Math.ceil(gpx.length / GPX_CHARACTERS_PER_MOBILE_KIT_MESSAGE);
+
+    for (let part = 0; part < parts; part++) {
+      const sent = this.mobileKitManager.sendMessage(MOBILE_KIT_GPX_TOPIC, {
+        sessionId: sessionId,
+        part: part + 1,
+        parts: parts,
+        gpx: gpx.substring(part * GPX_CHARACTERS_PER_MOBILE_KIT_MESSAGE, (part + 1) * GPX_CHARACTERS_PER_MOBILE_KIT_MESSAGE),
+      });
+      if (!sent) {
+        return false;
+      }
+    }
+
+    print('sendGpxToPhone() - Sent GPX of ' + gpx.length + ' characters in ' + parts + ' messages');
+    return true;
+  }
+
+  /**
+   * Adds an entry to the session, if recording.
+   */
+  private addEntry(entry: SessionEntry) {
+    if (!this.recording) {
+      return;
+    }
+
+    this.entries.push(entry);
+    this.hasUnsavedEntries = true;
+  }
+
+  private attachToSource(source: LocationSource) {
+    const onFix = source.onRawFix !== undefined ? source.onRawFix : source.onFix;
+    onFix.add((fix: LocationFix) => this.addEntry(createFixEntry(fix)));
+  }
+
+  private recordHeading(heading: number) {
+    const now = Date.now();
+    if (now - this.lastHeadingRecordTime < this.headingRecordInterval * 1000) {
+      return;
+    }
+
+    this.lastHeadingRecordTime = now;
+    this.addEntry(createHeadingEntry(this.locationManager.sourceId, heading, now));
+  }
+
+  /**
+   * Saves the session to persistent storage, if it changed since the last save.
+   */
+  private persistSession() {
+    if (!this.hasUnsavedEntries) {
+      return;
+    }
+
+    const store = global.persistentStorageSystem.store;
+    const entries = this.entries.toArray();
+    let count = Math.min(entries.length, this.maxPersistedEntries);
+    let text = serializeSessionJsonLines(entries.slice(entries.length - count));
+
+    // Drop the oldest entries until the session fits in the store, leaving room for the data of other components
+    const sizeLimit = store.getSizeLimit() * PERSISTENT_STORAGE_SHARE;
+    while (count > 0 && text.length > sizeLimit) {
+      count = Math.floor(count * sizeLimit / text.length * 0.9);
+      text = serializeSessionJsonLines(entries.slice(entries.length - count));
+    }
+    if (count < Math.min(entries.length, this.maxPersistedEntries)) {
+      print('persistSession() - Warning: only the last ' + count + ' entries fit in persistent storage');
+    }
+
+    try {
+      store.putString(PERSISTENT_STORAGE_KEY, text);
+      this.hasUnsavedEntries = false;
+    } catch (error) {
+      print('persistSession() - Error saving location session: ' + error);
+    }
+  }
+
+  /**
+   * Restores the session saved in persistent storage by the previous run of the Lens as the previous session.
+   * The current session starts empty, so the sessions of different runs are not mixed.
+   */
+  private restoreSession() {
+    const store = global.persistentStorageSystem.store;
+    if (!store.has(PERSISTENT_STORAGE_KEY)) {
+      return;
+    }
+
+    this.previousSessionEntries = parseSessionJsonLines(store.getString(PERSISTENT_STORAGE_KEY));
+    print('restoreSession() - Restored previous session of ' + this.previousSessionEntries.length +
+      ' entries from persistent storage');
+  }
+}
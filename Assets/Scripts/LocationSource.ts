@@ -0,0 +1,148 @@
+/**
+ * LocationSource - Common contract for anything that produces location fixes
+ *
+ * LocationManager (on-device GeoLocation) and MobileKitManager (phone over Mobile Kit) both produce
+ * the same kind of data: a position with accuracy values. This module defines the shape of a single
+ * fix and the interface a location source implements, so that consumers (MapController, the hand-locked
+ * UI and the floating details UI) can subscribe to a source by name through the LocationSourceRegistry
+ * instead of being wired to one specific component.
+ *
+ * Key Features:
+ * - Typed LocationFix object with source id and timestamp
+ * - LocationSource interface with start/stop, an onFix event and an optional onHeadingUpdate event
+ * - Helpers for creating fixes and converting them to GeoPosition for the map
+ * - Helpers for the age of a fix and whether it is stale
+ */
+
+import { PublicApi } from "SpectaclesInteractionKit.lspkg/Utils/Event";
+
+/** A single position reported by a location source */
+export type LocationFix = {
+  sourceId: string;                   // Id of the LocationSource that produced the fix (e.g. 'spectacles', 'mobile-kit')
+  timestamp: number;                  // Time of the fix (as reported by the source, otherwise when it was received), in milliseconds since epoch
+  latitude: number;                   // Latitude in degrees
+  longitude: number;                  // Longitude in degrees
+  horizontalAccuracy: number;         // Accuracy of lat/long in meters
+  altitude: number;                   // Altitude in meters
+  verticalAccuracy: number;           // Accuracy of altitude in meters
+  locationSource: string;             // Platform location source (GNSS_RECEIVER, WIFI_POSITIONING_SYSTEM, ...), empty if not applicable
+};
+
+/** Interface implemented by every component that provides location fixes */
+export interface LocationSource {
+  /** Unique name the source is registered under in the LocationSourceRegistry */
+  readonly sourceId: string;
+
+  /** Event invoked every time the source produces a new fix */
+  readonly onFix: PublicApi<LocationFix>;
+
+  /**
+   * Event invoked with every new heading in degrees clockwise from north, for sources that report a heading.
+   * Sources that know the magnetic declination report a true north heading (LocationManager reports its
+   * heading relative to its platformHeadingReference)
+   */
+  readonly onHeadingUpdate?: PublicApi<number>;
+
+  /**
+   * Event invoked with every fix as measured, for sources that smooth their fixes before publishing them on onFix
+   * (e.g. the LocationManager Kalman filter). Recorders use it to record what was actually reported
+   */
+  readonly onRawFix?: PublicApi<LocationFix>;
+
+  /** Starts producing fixes */
+  start(): void;
+
+  /** Stops producing fixes */
+  stop(): void;
+
+  /** Whether the source is currently producing fixes */
+  isRunning(): boolean;
+
+  /** The most recent fix, or null when no fix has been produced yet */
+  getLastFix(): LocationFix | null;
+}
+
+/**
+ * Creates a LocationFix, by default stamped with the current time.
+ * @param sourceId Id of the LocationSource producing the fix
+ * @param latitude Latitude in degrees
+ * @param longitude Longitude in degrees
+ * @param horizontalAccuracy Accuracy of lat/long in meters
+ * @param altitude Altitude in meters
+ * @param verticalAccuracy Accuracy of altitude in meters
+ * @param locationSource Platform location source string, if known
+ * @param timestamp Time of the fix in milliseconds since epoch, defaults to now
+ * @returns The new fix
+ */
+export function createLocationFix(
+  sourceId: string,
+  latitude: number,
+  longitude: number,
+  horizontalAccuracy: number,
+  altitude: number,
+  verticalAccuracy: number,
+  locationSource: string = '',
+  timestamp: number = Date.now()
+): LocationFix {
+  return {
+    sourceId: sourceId,
+    timestamp: timestamp,
+    latitude: latitude,
+    longitude: longitude,
+    horizontalAccuracy: horizontalAccuracy,
+    altitude: altitude,
+    verticalAccuracy: verticalAccuracy,
+    locationSource: locationSource,
+  };
+}
+
+/**
+ * Returns how long ago a fix was taken.
+ * @param fix The fix
+ * @param now Current time in milliseconds since epoch, defaults to now
+ * @returns Age of the fix in seconds, never negative (clocks of external devices may run ahead)
+ */
+export function getFixAge(fix: LocationFix, now: number = Date.now()): number {
+  return Math.max(0, (now - fix.timestamp) / 1000);
+}
+
+/**
+ * Whether a fix is too old to be shown as the current position.
+ * @param fix The fix, null when the source has not produced a fix yet
+ * @param staleFixAge Age in seconds above which a fix is stale
+ * @returns true when there is no fix or the fix is older than staleFixAge
+ */
+export function isFixStale(fix: LocationFix | null, staleFixAge: number): boolean {
+  return fix === null || getFixAge(fix) > staleFixAge;
+}
+
+/**
+ * Formats a duration (e.g. the age of a fix) for display, e.g. '4s', '2m 5s' or '1h 3m'.
+ * @param durationSeconds Duration in seconds
+ * @returns The formatted duration
+ */
+export function formatDuration(durationSeconds: number): string {
+  const seconds = Math.floor(durationSeconds);
+  if (seconds < 60) {
+    return seconds + 's';
+  }
+  if (seconds < 3600) {
+    return Math.floor(seconds / 60) + 'm ' + (seconds % 60) + 's';
+  }
+  return Math.floor(seconds / 3600) + 'h ' + Math.floor((seconds % 3600) / 60) + 'm';
+}
+
+/**
+ * Converts a LocationFix into a GeoPosition, e.g. for passing it on to the MapComponent.
+ * @param fix The fix to convert
+ * @returns A new GeoPosition with the position and accuracy values of the fix
+ */
+export function locationFixToGeoPosition(fix: LocationFix): GeoPosition {
+  const geoPosition = GeoPosition.create();
+  geoPosition.latitude = fix.latitude;
+  geoPosition.longitude = fix.longitude;
+  geoPosition.altitude = fix.altitude;
+  geoPosition.horizontalAccuracy = fix.horizontalAccuracy;
+  geoPosition.verticalAccuracy = fix.verticalAccuracy;
+  return geoPosition;
+}
@@ -0,0 +1,220 @@
+/**
+ * LocationSourceRegistry - Central lookup of location sources by name
+ *
+ * Location sources (LocationManager, MobileKitManager, ...) register themselves here when they awake.
+ * Consumers subscribe to a source by its id and receive its fixes, without needing a direct reference
+ * to the component. Subscriptions can be made before the source has registered (e.g. Mobile Kit, whose
+ * scene object is only enabled once the user presses Start Mobile Kit); the callbacks are attached as
+ * soon as the source shows up.
+ *
+ * Key Features:
+ * - Singleton registry accessible via LocationSourceRegistry.getInstance()
+ * - Register/unregister sources by id
+ * - Subscribe to fixes from a source by id, including sources that register later
+ * - Subscribe to the headings of a source by id, for sources that report a heading
+ * - Event when a new source is registered
+ * - Optional fix filter (e.g. FixQualityGate) that can drop fixes before they reach subscribers
+ */
+
+import Event, { callback } from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { LocationFix, LocationSource } from "./LocationSource";
+
+/** Filter that decides whether a fix is passed on to the subscribers of its source */
+export interface FixFilter {
+  /**
+   * @param fix The fix produced by a registered source
+   * @returns true when the fix should be passed on, false to drop it
+   */
+  accept(fix: LocationFix): boolean;
+}
+
+export class LocationSourceRegistry {
+
+  private static instance: LocationSourceRegistry = null;
+
+  /** Registered sources by source id */
+  private sources: Map<string, LocationSource> = new Map();
+
+  /** Subscribers by source id, kept independently of the sources so they survive (re-)registration */
+  private subscribers: Map<string, Set<callback<LocationFix>>> = new Map();
+
+  /** Handlers attached to each registered source's onFix event, used to detach them again on unregister */
+  private fixForwarders: Map<string, callback<LocationFix>> = new Map();
+
+  /** Heading subscribers by source id, kept independently of the sources like the fix subscribers */
+  private headingSubscribers: Map<string, Set<callback<number>>> = new Map();
+
+  /** Handlers attached to the onHeadingUpdate event of registered sources that report a heading */
+  private headingForwarders: Map<string, callback<number>> = new Map();
+
+  /** Most recent fix of each source that passed the fix filter, by source id */
+  private acceptedFixes: Map<string, LocationFix> = new Map();
+
+  /** Filter applied to every fix before it is passed on, null to pass on all fixes */
+  private fixFilter: FixFilter = null;
+
+  private onSourceRegisteredEvent = new Event<LocationSource>();
+  public onSourceRegistered = this.onSourceRegisteredEvent.publicApi();
+
+  /**
+   * Returns the shared registry instance, creating it on first use.
+   */
+  static getInstance(): LocationSourceRegistry {
+    if (LocationSourceRegistry.instance === null) {
+      LocationSourceRegistry.instance = new LocationSourceRegistry();
+    }
+    return LocationSourceRegistry.instance;
+  }
+
+  /**
+   * Registers a location source under its sourceId. A source already registered under the
+   * same id is replaced.
+   * @param source The location source to register
+   */
+  register(source: LocationSource): void {
+    if (this.sources.has(source.sourceId)) {
+      print('register() - Warning: replacing already registered location source: ' + source.sourceId);
+      this.unregister(source.sourceId);
+    }
+
+    const forwarder = (fix: LocationFix) => this.forwardFix(source.sourceId, fix);
+    source.onFix.add(forwarder);
+
+    this.sources.set(source.sourceId, source);
+    this.fixForwarders.set(source.sourceId, forwarder);
+
+    if (source.onHeadingUpdate) {
+      const headingForwarder = (heading: number) => this.forwardHeading(source.sourceId, heading);
+      source.onHeadingUpdate.add(headingForwarder);
+      this.headingForwarders.set(source.sourceId, headingForwarder);
+    }
+
+    this.onSourceRegisteredEvent.invoke(source);
+  }
+
+  /**
+   * Removes a location source from the registry. Subscribers are kept and will receive fixes
+   * again if a source with the same id is registered later.
+   * @param sourceId Id of the source to remove
+   */
+  unregister(sourceId: string): void {
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      return;
+    }
+
+    source.onFix.remove(this.fixForwarders.get(sourceId));
+    this.fixForwarders.delete(sourceId);
+    if (source.onHeadingUpdate && this.headingForwarders.has(sourceId)) {
+      source.onHeadingUpdate.remove(this.headingForwarders.get(sourceId));
+      this.headingForwarders.delete(sourceId);
+    }
+    this.sources.delete(sourceId);
+  }
+
+  /**
+   * Sets the filter that every fix has to pass before it reaches the subscribers.
+   * @param filter The filter to apply, or null to pass on all fixes
+   */
+  setFixFilter(filter: FixFilter): void {
+    this.fixFilter = filter;
+  }
+
+  /**
+   * Returns the location source registered under the given id.
+   * @param sourceId Id of the source
+   * @returns The source, or null when no source with that id is registered
+   */
+  getSource(sourceId: string): LocationSource | null {
+    return this.sources.get(sourceId) || null;
+  }
+
+  /**
+   * Returns the most recent fix of a source that passed the fix filter, e.g. to show a position right away
+   * when subscribing, without bypassing the filter.
+   * @param sourceId Id of the source
+   * @returns The fix, or null when no fix of that source has been passed on yet
+   */
+  getLastAcceptedFix(sourceId: string): LocationFix | null {
+    return this.acceptedFixes.get(sourceId) || null;
+  }
+
+  /**
+   * Returns the ids of all registered sources, in registration order.
+   */
+  getSourceIds(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  /**
+   * Subscribes to the fixes of the source with the given id. The source does not need to be
+   * registered yet.
+   * @param sourceId Id of the source to subscribe to
+   * @param fn Callback invoked with every new fix of the source
+   * @returns Function that removes the subscription again
+   */
+  subscribe(sourceId: string, fn: callback<LocationFix>): () => void {
+    if (!this.subscribers.has(sourceId)) {
+      this.subscribers.set(sourceId, new Set());
+    }
+    this.subscribers.get(sourceId).add(fn);
+
+    return () => {
+      const sourceSubscribers = this.subscribers.get(sourceId);
+      if (sourceSubscribers) {
+        sourceSubscribers.delete(fn);
+      }
+    };
+  }
+
+  /**
+   * Subscribes to the headings of the source with the given id. The source does not need to be
+   * registered yet; sources without onHeadingUpdate event never invoke the callback.
+   * @param sourceId Id of the source to subscribe to
+   * @param fn Callback invoked with every new heading of the source, in degrees
+   * @returns Function that removes the subscription again
+   */
+  subscribeHeading(sourceId: string, fn: callback<number>): () => void {
+    if (!this.headingSubscribers.has(sourceId)) {
+      this.headingSubscribers.set(sourceId, new Set());
+    }
+    this.headingSubscribers.get(sourceId).add(fn);
+
+    return () => {
+      const sourceSubscribers = this.headingSubscribers.get(sourceId);
+      if (sourceSubscribers) {
+        sourceSubscribers.delete(fn);
+      }
+    };
+  }
+
+  /**
+   * Passes a fix from a registered source on to all subscribers of that source,
+   * unless the fix filter rejects it.
+   */
+  private forwardFix(sourceId: string, fix: LocationFix): void {
+    if (this.fixFilter !== null && !this.fixFilter.accept(fix)) {
+      return;
+    }
+    this.acceptedFixes.set(sourceId, fix);
+
+    const sourceSubscribers = this.subscribers.get(sourceId);
+    if (!sourceSubscribers) {
+      return;
+    }
+
+    sourceSubscribers.forEach((fn) => fn(fix));
+  }
+
+  /**
+   * Passes a heading from a registered source on to all heading subscribers of that source.
+   */
+  private forwardHeading(sourceId: string, heading: number): void {
+    const sourceSubscribers = this.headingSubscribers.get(sourceId);
+    if (!sourceSubscribers) {
+      return;
+    }
+
+    sourceSubscribers.forEach((fn) => fn(heading));
+  }
+}
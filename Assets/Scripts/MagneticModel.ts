@@ -0,0 +1,268 @@
+/**
+ * MagneticModel - Magnetic declination from the World Magnetic Model (WMM2025)
+ *
+ * A compass points to magnetic north, which differs from true (geographic) north by the magnetic declination:
+ * a few degrees in most of Europe, more than 10 degrees in parts of North America and Australia. This module
+ * embeds the coefficients of the World Magnetic Model 2025 (NOAA NCEI / BGS, valid 2025.0 - 2030.0) and evaluates
+ * its spherical harmonic expansion to compute the declination at a position and date, fully offline.
+ *
+ * Only the horizontal field direction is computed; the declination is accurate to well under a degree outside
+ * the polar regions, which is far better than any head-worn compass.
+ *
+ * Key Features:
+ * - Embedded WMM2025 main field and secular variation coefficients (degree and order 12)
+ * - Magnetic declination for a latitude, longitude, altitude and date
+ * - Conversion of headings between true and magnetic north
+ */
+
+/** North reference of a heading */
+export type HeadingReference = 'true' | 'magnetic';
+
+/** Epoch of the model coefficients, as a decimal year */
+export const WMM_EPOCH = 2025.0;
+
+/** End of the validity period of the model, as a decimal year */
+export const WMM_VALID_UNTIL = 2030.0;
+
+/** Maximum degree of the spherical harmonic expansion */
+const MAX_DEGREE = 12;
+
+/** Geomagnetic reference radius in km */
+const REFERENCE_RADIUS = 6371.2;
+
+/** WGS 84 semi-major axis in km and flattening */
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+
+/**
+ * WMM2025 coefficients: degree n, order m, g and h in nT at the epoch, and their
+ * secular variation gDot and hDot in nT/year (Schmidt semi-normalized)
+ */
+const WMM_COEFFICIENTS: number[][] = [
+  [1, 0, -29351.8, 0, 12, 0],
+  [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0, -11.6, 0],
+  [2, 1, 2951.1, -3133.6, -5.2, -27.7],
+  [2, 2, 1649.3, -815.1, -8, -12.1],
+  [3, 0, 1361, 0, -1.3, 0],
+  [3, 1, -2404.1, -56.6, -4.2, 4],
+  [3, 2, 1243.8, 237.5, 0.4, -0.3],
+  [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895, 0, -1.6, 0],
+  [4, 1, 799.5, 278.6, -2.4, -1.1],
+  [4, 2, 55.7, -133.9, -6, 4.1],
+  [4, 3, -281.1, 212, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7, -4.4],
+  [5, 0, -233.2, 0, 0.6, 0],
+  [5, 1, 368.9, 45.4, 1.4, -0.5],
+  [5, 2, 187.2, 220.2, 0, 2.2],
+  [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142, 43, 2.2, 1.7],
+  [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0, -0.2, 0],
+  [6, 1, 63.8, -18.4, -0.4, 0.3],
+  [6, 2, 76.9, 16.8, 0.9, -1.6],
+  [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9],
+  [6, 5, 14.9, 10.9, 0.3, 0.7],
+  [6, 6, -60.7, 72.7, 0.9, 0.9],
+  [7, 0, 79.5, 0, 0, 0],
+  [7, 1, -77, -48.9, -0.1, 0.6],
+  [7, 2, -8.8, -14.4, -0.1, 0.5],
+  [7, 3, 59.3, -1, 0.5, -0.8],
+  [7, 4, 15.8, 23.4, -0.1, 0],
+  [7, 5, 2.5, -7.4, -0.8, -1],
+  [7, 6, -11.1, -25.1, -0.8, 0.6],
+  [7, 7, 14.2, -2.3, 0.8, -0.2],
+  [8, 0, 23.2, 0, -0.1, 0],
+  [8, 1, 10.8, 7.1, 0.2, -0.2],
+  [8, 2, -17.5, -12.6, 0, 0.5],
+  [8, 3, 2, 11.4, 0.5, -0.4],
+  [8, 4, -21.7, -9.7, -0.1, 0.4],
+  [8, 5, 16.9, 12.7, 0.3, -0.5],
+  [8, 6, 15, 0.7, 0.2, -0.6],
+  [8, 7, -16.8, -5.2, 0, 0.3],
+  [8, 8, 0.9, 3.9, 0.2, 0.2],
+  [9, 0, 4.6, 0, 0, 0],
+  [9, 1, 7.8, -24.8, -0.1, -0.3],
+  [9, 2, 3, 12.2, 0.1, 0.3],
+  [9, 3, -0.2, 8.3, 0.3, -0.3],
+  [9, 4, -2.5, -3.4, -0.3, 0.3],
+  [9, 5, -13.1, -5.3, 0, 0.2],
+  [9, 6, 2.4, 7.2, 0.3, -0.1],
+  [9, 7, 8.6, -0.6, -0.1, -0.2],
+  [9, 8, -8.7, 0.8, 0.1, 0.4],
+  [9, 9, -12.9, 10, -0.1, 0.1],
+  [10, 0, -1.3, 0, 0.1, 0],
+  [10, 1, -6.4, 3.3, 0, 0],
+  [10, 2, 0.2, 0, 0.1, 0],
+  [10, 3, 2, 2.4, 0.1, -0.2],
+  [10, 4, -1, 5.3, 0, 0.1],
+  [10, 5, -0.6, -9.1, -0.3, -0.1],
+  [10, 6, -0.9, 0.4, 0, 0.1],
+  [10, 7, 1.5, -4.2, -0.1, 0],
+  [10, 8, 0.9, -3.8, -0.1, -0.1],
+  [10, 9, -2.7, 0.9, 0, 0.2],
+  [10, 10, -3.9, -9.1, 0, 0],
+  [11, 0, 2.9, 0, 0, 0],
+  [11, 1, -1.5, 0, 0, 0],
+  [11, 2, -2.5, 2.9, 0, 0.1],
+  [11, 3, 2.4, -0.6, 0, 0],
+  [11, 4, -0.6, 0.2, 0, 0.1],
+  [11, 5, -0.1, 0.5, -0.1, 0],
+  [11, 6, -0.6, -0.3, 0, 0],
+  [11, 7, -0.1, -1.2, 0, 0.1],
+  [11, 8, 1.1, -1.7, -0.1, 0],
+  [11, 9, -1, -2.9, -0.1, 0],
+  [11, 10, -0.2, -1.8, -0.1, 0],
+  [11, 11, 2.6, -2.3, -0.1, 0],
+  [12, 0, -2, 0, 0, 0],
+  [12, 1, -0.2, -1.3, 0, 0],
+  [12, 2, 0.3, 0.7, 0, 0],
+  [12, 3, 1.2, 1, 0, -0.1],
+  [12, 4, -1.3, -1.4, 0, 0.1],
+  [12, 5, 0.6, 0, 0, 0],
+  [12, 6, 0.6, 0.6, 0.1, 0],
+  [12, 7, 0.5, -0.1, 0, 0],
+  [12, 8, -0.1, 0.8, 0, 0],
+  [12, 9, -0.4, 0.1, 0, 0],
+  [12, 10, -0.2, -1, -0.1, 0],
+  [12, 11, -1.3, 0.1, 0, 0],
+  [12, 12, -0.7, 0.2, -0.1, -0.1],
+];
+
+/** Whether the warning about a date outside the model validity period was printed */
+let validityWarningPrinted = false;
+
+/**
+ * Returns a date as a decimal year, e.g. 2025.5 for the beginning of July 2025.
+ * @param date The date
+ * @returns The decimal year
+ */
+export function getDecimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Returns the magnetic declination, the angle from true north to magnetic north, at a position and date.
+ * Dates outside the validity period of the model are extrapolated, with a warning.
+ * @param latitude Latitude in degrees
+ * @param longitude Longitude in degrees
+ * @param altitude Altitude above the WGS 84 ellipsoid in meters
+ * @param date Date of the observation, now by default
+ * @returns The declination in degrees, positive when magnetic north is east of true north
+ */
+export function getMagneticDeclination(latitude: number, longitude: number, altitude: number = 0, date: Date = new Date()): number {
+  const decimalYear = getDecimalYear(date);
+  if ((decimalYear < WMM_EPOCH || decimalYear > WMM_VALID_UNTIL) && !validityWarningPrinted) {
+    validityWarningPrinted = true;
+    print('getMagneticDeclination() - Warning: ' + decimalYear.toFixed(1) + ' is outside the validity period of WMM2025 (' +
+      WMM_EPOCH.toFixed(1) + ' - ' + WMM_VALID_UNTIL.toFixed(1) + '), the declination may be off by a degree or more');
+  }
+  const yearsSinceEpoch = decimalYear - WMM_EPOCH;
+
+  // Geodetic to geocentric spherical coordinates
+  const phi = latitude * MathUtils.DegToRad;
+  const lambda = longitude * MathUtils.DegToRad;
+  const altitudeKm = altitude / 1000;
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const primeVerticalRadius = WGS84_A / Math.sqrt(1 - e2 * Math.sin(phi) * Math.sin(phi));
+  const p = (primeVerticalRadius + altitudeKm) * Math.cos(phi);
+  const z = (primeVerticalRadius * (1 - e2) + altitudeKm) * Math.sin(phi);
+  const r = Math.sqrt(p * p + z * z);
+  const geocentricLatitude = Math.asin(z / r);
+
+  // Cosine and sine of the geocentric colatitude
+  const cosTheta = Math.sin(geocentricLatitude);
+  // Avoid the division by zero at the poles, where the declination is undefined anyway
+  const sinTheta = Math.max(Math.cos(geocentricLatitude), 1e-9);
+
+  // Schmidt semi-normalized associated Legendre functions P[n][m] and their derivatives to the colatitude
+  const legendre = getSchmidtLegendre(cosTheta, sinTheta);
+
+  let north = 0;
+  let east = 0;
+  let down = 0;
+  WMM_COEFFICIENTS.forEach(([n, m, g0, h0, gDot, hDot]) => {
+    const g = g0 + gDot * yearsSinceEpoch;
+    const h = h0 + hDot * yearsSinceEpoch;
+    const radiusFactor = Math.pow(REFERENCE_RADIUS / r, n + 2);
+    const cosM = Math.cos(m * lambda);
+    const sinM = Math.sin(m * lambda);
+
+    north += radiusFactor * (g * cosM + h * sinM) * legendre.derivatives[n][m];
+    east += radiusFactor * m * (g * sinM - h * cosM) * legendre.values[n][m];
+    down -= radiusFactor * (n + 1) * (g * cosM + h * sinM) * legendre.values[n][m];
+  });
+  east /= sinTheta;
+
+  // Rotate the north component from the geocentric to the geodetic frame
+  const latitudeDifference = geocentricLatitude - phi;
+  const geodeticNorth = north * Math.cos(latitudeDifference) - down * Math.sin(latitudeDifference);
+
+  return Math.atan2(east, geodeticNorth) * MathUtils.RadToDeg;
+}
+
+/**
+ * Converts a heading between true and magnetic north.
+ * @param heading Heading in degrees, clockwise from the north given by from
+ * @param from North reference of the heading
+ * @param to North reference to convert to
+ * @param declination Magnetic declination in degrees, positive when magnetic north is east of true north
+ * @returns The heading in degrees in the range [0, 360), clockwise from the north given by to
+ */
+export function convertHeading(heading: number, from: HeadingReference, to: HeadingReference, declination: number): number {
+  let converted = heading;
+  if (from === 'magnetic' && to === 'true') {
+    converted = heading + declination;
+  } else if (from === 'true' && to === 'magnetic') {
+    converted = heading - declination;
+  }
+  return ((converted % 360) + 360) % 360;
+}
+
+/**
+ * Computes the Schmidt semi-normalized associated Legendre functions up to MAX_DEGREE, and their derivatives
+ * to the colatitude, with the recursion of the WMM technical report.
+ */
+function getSchmidtLegendre(cosTheta: number, sinTheta: number): { values: number[][]; derivatives: number[][] } {
+  // Gauss-normalized functions first
+  const values: number[][] = [[1]];
+  const derivatives: number[][] = [[0]];
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    values.push([]);
+    derivatives.push([]);
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        values[n][m] = sinTheta * values[n - 1][m - 1];
+        derivatives[n][m] = sinTheta * derivatives[n - 1][m - 1] + cosTheta * values[n - 1][m - 1];
+      } else if (n === 1 || m === n - 1) {
+        values[n][m] = cosTheta * values[n - 1][m];
+        derivatives[n][m] = cosTheta * derivatives[n - 1][m] - sinTheta * values[n - 1][m];
+      } else {
+        const k = ((n - 1) * (n - 1) - m * m) / ((2 * n - 1) * (2 * n - 3));
+        values[n][m] = cosTheta * values[n - 1][m] - k * values[n - 2][m];
+        derivatives[n][m] = cosTheta * derivatives[n - 1][m] - sinTheta * values[n - 1][m] - k * derivatives[n - 2][m];
+      }
+    }
+  }
+
+  // Scale to Schmidt semi-normalization
+  let factor = 1;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    factor = factor * (2 * n - 1) / n;
+    let orderFactor = factor;
+    for (let m = 0; m <= n; m++) {
+      if (m > 0) {
+        orderFactor = orderFactor * Math.sqrt((n - m + 1) * (m === 1 ? 2 : 1) / (n + m));
+      }
+      values[n][m] *= orderFactor;
+      derivatives[n][m] *= orderFactor;
+    }
+  }
+
+  return { values: values, derivatives: derivatives };
+}
@@ -0,0 +1,199 @@
+/**
+ * MobileKitCommandHandler - Lets the mobile app remote control the Lens over the Mobile Kit session
+ *
+ * While wearing the glasses, it's awkward to reach for the Lens UI to set up a test. This component subscribes to
+ * the 'command' topic of the MobileKitManager, executes the commands sent by the mobile app (see MobileKitPayload
+ * for the message format), and answers every command on the 'command-ack' topic with its id, whether it succeeded,
+ * the error if it didn't, and the resulting status of the Lens:
+ *   {"topic":"command-ack","id":7,"command":"zoom","success":true,"error":"","status":{...}}
+ * The status is also sent on the 'status' topic whenever the session connects, so the app can show the state
+ * of the Lens right away.
+ *
+ * Key Features:
+ * - Set a custom map location or follow the user again, and change the zoom level
+ * - Drop a pin at a given location or at the user location
+ * - Start/stop the LocationSessionRecorder
+ * - Switch the location source of the map user pin
+ * - Acknowledgement with success or error and the Lens status for every command
+ * - onCommandExecuted event, e.g. to show the last command in a UI
+ */
+
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { LocationSessionRecorder } from "./LocationSessionRecorder";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { MobileKitManager } from "./MobileKitManager";
+import { MobileKitCommand, parseMobileKitCommand } from "./MobileKitPayload";
+
+/** Zoom levels of the map tiles that can be set remotely */
+const MIN_ZOOM_LEVEL = 1;
+const MAX_ZOOM_LEVEL = 21;
+
+@component
+export class MobileKitCommandHandler extends BaseScriptComponent {
+
+  /** MobileKitManager to receive the commands from and send the acknowledgements with */
+  @input
+  public mobileKitManager: MobileKitManager;
+
+  /** Map controlled by the map location, pin, location source and zoom commands */
+  @input
+  public mapComponent: MapComponent;
+
+  /** Optional LocationSessionRecorder controlled by the recording commands */
+  @input
+  @allowUndefined
+  public locationSessionRecorder: LocationSessionRecorder;
+
+  /** Mobile Kit topic of the commands from the mobile app */
+  @input
+  public commandTopic: string = 'command';
+
+  /** Mobile Kit topic of the acknowledgements sent back to the mobile app */
+  @input
+  public ackTopic: string = 'command-ack';
+
+  /** Mobile Kit topic of the status sent to the mobile app when the session connects, empty to disable */
+  @input
+  public statusTopic: string = 'status';
+
+  /** Invoked with every command that was executed successfully */
+  private onCommandExecutedEvent = new Event<MobileKitCommand>();
+  public onCommandExecuted = this.onCommandExecutedEvent.publicApi();
+
+  onAwake() {
+    this.mobileKitManager.subscribeTopic(this.commandTopic, (message) => {
+      this.onCommandMessage(message);
+    });
+
+    this.mobileKitManager.onSessionStateChanged.add((state) => {
+      if (state === 'connected' && this.statusTopic !== '') {
+        this.mobileKitManager.sendMessage(this.statusTopic, this.getStatus());
+      }
+    });
+  }
+
+  /**
+   * Returns the status of the Lens as sent to the mobile app: the map location, zoom level and location source,
+   * and the recording state.
+   */
+  getStatus(): object {
+    const userLocation = this.mapComponent.getUserLocation();
+    return {
+      custom_map_location: this.mapComponent.hasCustomMapLocation(),
+      user_latitude: userLocation ? userLocation.latitude : null,
+      user_longitude: userLocation ? userLocation.longitude : null,
+      zoom_level: this.mapComponent.getZoomLevel(),
+      location_source: this.mapComponent.getUserLocationSourceId(),
+      recording: this.locationSessionRecorder ? this.locationSessionRecorder.isRecording() : null,
+      recorded_entries: this.locationSessionRecorder ? this.locationSessionRecorder.getEntryCount() : null,
+    };
+  }
+
+  /**
+   * Validates and executes a command message, and sends the acknowledgement.
+   */
+  private onCommandMessage(message: string) {
+    const result = parseMobileKitCommand(message);
+    if (result.error !== null) {
+      print('onCommandMessage() - Rejected command: ' + result.error);
+      this.sendAck(getCommandId(message), '', result.error);
+      return;
+    }
+
+    const command = result.payload;
+    const error = this.executeCommand(command);
+    if (error !== null) {
+      print('onCommandMessage() - Command ' + command.command + ' failed: ' + error);
+    } else {
+      this.onCommandExecutedEvent.invoke(command);
+    }
+    this.sendAck(command.id, command.command, error);
+  }
+
+  /**
+   * Executes a validated command.
+   * @returns null on success, otherwise the reason the command failed
+   */
+  private executeCommand(command: MobileKitCommand): string | null {
+    switch (command.command) {
+      case 'set-map-location':
+        if (!this.mapComponent.setCustomMapLocation(command.longitude, command.latitude)) {
+          return 'map is not ready yet';
+        }
+        return null;
+
+      case 'clear-map-location':
+        this.mapComponent.clearCustomMapLocation();
+        return null;
+
+      case 'drop-pin':
+        if (command.latitude !== null) {
+          this.mapComponent.createMapPin(command.longitude, command.latitude);
+        } else if (this.mapComponent.getUserLocation()) {
+          this.mapComponent.createMapPinAtUserLocation();
+        } else {
+          return 'user location unknown';
+        }
+        return null;
+
+      case 'start-recording':
+      case 'stop-recording':
+        if (!this.locationSessionRecorder) {
+          return 'no LocationSessionRecorder assigned';
+        }
+        if (command.command === 'start-recording') {
+          this.locationSessionRecorder.startRecording();
+        } else {
+          this.locationSessionRecorder.stopRecording();
+        }
+        return null;
+
+      case 'set-location-source':
+        if (command.sourceId !== '' && LocationSourceRegistry.getInstance().getSource(command.sourceId) === null) {
+          return 'unknown location source ' + command.sourceId + ', registered: ' +
+            LocationSourceRegistry.getInstance().getSourceIds().join(', ');
+        }
+        this.mapComponent.setUserLocationSource(command.sourceId);
+        return null;
+
+      case 'zoom': {
+        const level = command.level !== null ? command.level : this.mapComponent.getZoomLevel() + command.delta;
+        this.mapComponent.setZoomLevel(Math.min(Math.max(level, MIN_ZOOM_LEVEL), MAX_ZOOM_LEVEL));
+        return null;
+      }
+
+      case 'get-status':
+        return null;
+    }
+  }
+
+  /**
+   * Sends the acknowledgement of a command with the resulting status.
+   * @param id Id of the command, null when the message had no valid id
+   * @param command Name of the command, empty when the message was rejected
+   * @param error null on success, otherwise the reason the command was rejected or failed
+   */
+  private sendAck(id: number | null, command: string, error: string | null) {
+    this.mobileKitManager.sendMessage(this.ackTopic, {
+      id: id,
+      command: command,
+      success: error === null,
+      error: error !== null ? error : '',
+      status: this.getStatus(),
+    });
+  }
+}
+
+/**
+ * Returns the id of a command message that failed the validation, so the acknowledgement can still refer to it.
+ * @returns The id, null when the message has no numeric id
+ */
+function getCommandId(message: string): number | null {
+  try {
+    const data = JSON.parse(message);
+    return data !== null && typeof data.id === 'number' ? data.id : null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -6,26 +6,131 @@
  * This component establishes a connection to the Spectacles Mobile Kit module on the mobile device and subscribes
  * to GPS location updates from the paired mobile device. It receives real-time location data
  * including latitude, longitude, horizontal accuracy, altitude, and vertical accuracy, then
- * stores this data and notifies content managers when new location information is available.
+ * stores this data and publishes it as a LocationFix through the LocationSource interface. It registers
+ * itself in the LocationSourceRegistry as 'mobile-kit'.
  * The component handles session lifecycle management, connection callbacks, and JSON parsing
  * of location data received from the mobile app.
  * 
+ * The session goes through an explicit state machine (idle, connecting, connected, disconnected, failed). When the
+ * connection drops or doesn't come up in time, a new session is created after an exponentially growing delay, and
+ * the subscriptions are started again once it connects, so a phone hiccup doesn't require restarting the Lens.
+ * 
+ * Besides the location, the phone's own sensors are subscribed to on separate topics: its compass heading, its
+ * speed and course over ground, and its barometer. The phone heading is published as a true north heading through
+ * onHeadingUpdate, so it can be used as the heading source of the map and the hand-locked compass instead of the
+ * Spectacles compass, e.g. when the glasses are near a magnetic disturbance the phone in the pocket is not.
+ * 
+ * To tell how delayed the phone fixes are, the Lens pings the mobile app periodically and estimates the round-trip
+ * time and the offset between the phone clock and the Spectacles clock from the replies (see ClockSync). With the
+ * offset, the phone timestamp of every location message gives the latency of that fix: the time from the phone
+ * taking the fix to the Lens receiving it. Until the first reply of a session, fixes are timed by their reception.
+ * 
  * Key Features:
  * - Mobile kit session management with connection/disconnection callbacks
+ * - Session state machine with automatic reconnection and exponential backoff, and an onSessionStateChanged event
  * - GPS location subscription from paired mobile device
- * - Real-time location data parsing and storage
- * - Automatic UI updates when new location data is received
+ * - Real-time location data parsing and storage, validated against a versioned payload schema (see MobileKitPayload),
+ *   with rejected messages counted
+ * - LocationSource implementation with an onFix event for every received location
+ * - Phone heading, speed, course and barometric altitude subscriptions, with an onHeadingUpdate event
+ * - Round-trip time and clock offset measurement with periodic pings, per-fix latency and latency statistics
+ * - Sending JSON messages back to the mobile app, and subscribing other components to additional topics
+ * - NMEA 0183 ingestion (GGA, RMC, GSA, GSV, VTG) from an external GNSS receiver relayed by the mobile app,
+ *   with checksum validation, exposing fix quality, satellite counts, HDOP and course
  * - Editor compatibility with appropriate fallback behavior
  */
 
-import { FloatingDetailsUIContentManager } from "./FloatingDetailsUIContentManager";
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { ClockSync } from "./ClockSync";
+import { createLocationFix, LocationFix, LocationSource } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { convertHeading, getMagneticDeclination } from "./MagneticModel";
+import {
+  parseMobileKitBarometerPayload,
+  parseMobileKitHeadingPayload,
+  parseMobileKitLocationPayload,
+  parseMobileKitMotionPayload,
+  parseMobileKitPongPayload
+} from "./MobileKitPayload";
+import { NmeaFixAssembler } from "./Nmea";
+import { RingBuffer } from "./RingBuffer";
+import { getSummaryStatistics, SummaryStatistics } from "./Statistics";
+
+/** Time after which an unanswered ping is forgotten, in milliseconds */
+const PING_TIMEOUT = 30000;
+
+/**
+ * State of the Mobile Kit session:
+ * - idle: not started (or in the editor, where Mobile Kit is unavailable)
+ * - connecting: waiting for the session to connect
+ * - connected: session connected, subscriptions started
+ * - disconnected: connection lost or not established in time, waiting to reconnect
+ * - failed: connection lost with autoReconnect disabled, or gave up after maxReconnectAttempts; reconnect() starts over
+ */
+export type MobileKitSessionState = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'failed';
 
 @component
-export class MobileKitManager extends BaseScriptComponent {
+export class MobileKitManager extends BaseScriptComponent implements LocationSource {
+
+  /** Id under which the MobileKitManager is registered in the LocationSourceRegistry */
+  static readonly SOURCE_ID = 'mobile-kit';
+
+  readonly sourceId: string = MobileKitManager.SOURCE_ID;
+
+  /** Mobile Kit topic on which the mobile app relays NMEA sentences from an external GNSS receiver, empty to disable */
+  @input
+  public nmeaTopic: string = 'nmea';
+
+  /** Mobile Kit topic on which the mobile app sends its compass heading, empty to disable */
+  @input
+  public headingTopic: string = 'phone-heading';
+
+  /** Mobile Kit topic on which the mobile app sends its speed and course over ground, empty to disable */
+  @input
+  public motionTopic: string = 'phone-motion';
+
+  /** Mobile Kit topic on which the mobile app sends its barometer readings, empty to disable */
+  @input
+  public barometerTopic: string = 'phone-barometer';
+
+  /** Interval between pings to the mobile app in seconds, 0 to disable (fixes are then timed by their reception) */
+  @input
+  public pingInterval: number = 5;
+
+  /** Mobile Kit topic of the pings sent to the mobile app */
+  @input
+  public pingTopic: string = 'ping';
 
-  /** Reference to FloatingDetailsUIContentManager component */
+  /** Mobile Kit topic of the ping replies from the mobile app */
   @input
-  floatingDetailsUIContentManager!: FloatingDetailsUIContentManager
+  public pongTopic: string = 'pong';
+
+  /** Number of recent fixes the latency statistics are computed over */
+  @input
+  public latencyWindow: number = 60;
+
+  /** Time to wait for the session to connect before trying again, in seconds */
+  @input
+  public connectTimeout: number = 15;
+
+  /** Whether to reconnect automatically when the session disconnects */
+  @input
+  public autoReconnect: boolean = true;
+
+  /** Delay before the first reconnection attempt, in seconds. The delay doubles with every failed attempt */
+  @input
+  @showIf("autoReconnect", true)
+  public reconnectInitialDelay: number = 1;
+
+  /** Maximum delay between reconnection attempts, in seconds */
+  @input
+  @showIf("autoReconnect", true)
+  public reconnectMaxDelay: number = 30;
+
+  /** Number of reconnection attempts before giving up, 0 to keep trying */
+  @input
+  @showIf("autoReconnect", true)
+  public maxReconnectAttempts: number = 10;
 
   /** Properties to store the user's location data */
   latitude: number = 0;               // Latitude in degrees
@@ -33,57 +138,373 @@ export class MobileKitManager extends BaseScriptComponent {
   horizontalAccuracy: number = 0;     // Accuracy of lat/long in meters
   altitude: number = 0;               // Altitude in meters
   verticalAccuracy: number = 0;       // Accuracy of altitude in meters
+  heading: number | null = null;      // Heading of the phone in degrees clockwise from true north, null if not reported
+  speed: number | null = null;        // Speed over ground in meters per second, null if not reported
+  phoneCourse: number | null = null;  // Course over ground reported by the phone in degrees, null if not reported
+  payloadVersion: number = 0;         // Version of the last accepted location payload
+
+  /** Properties to store the phone sensor data, only updated when the respective topic is received */
+  magneticHeading: number | null = null;    // Heading of the phone in degrees clockwise from magnetic north
+  headingAccuracy: number | null = null;    // Maximum deviation of the heading in degrees, null if unknown
+  headingTimestamp: number = 0;             // Time of the last heading in milliseconds since epoch, 0 if none
+  speedAccuracy: number | null = null;      // Accuracy of the speed in meters per second, null if unknown
+  courseAccuracy: number | null = null;     // Accuracy of the course in degrees, null if unknown
+  motionTimestamp: number = 0;              // Time of the last speed/course in milliseconds since epoch, 0 if none
+  pressure: number | null = null;           // Barometric pressure in kPa
+  relativeAltitude: number | null = null;   // Barometric altitude change since the phone started measuring, in meters
+  barometricAltitude: number | null = null; // Absolute barometric altitude in meters, null if the phone doesn't provide it
+  barometricAltitudeAccuracy: number | null = null; // Accuracy of the barometric altitude in meters, null if unknown
+  barometerTimestamp: number = 0;           // Time of the last barometer reading in milliseconds since epoch, 0 if none
+
+  /** Properties to store the receiver status, only updated when NMEA sentences are received */
+  hasNmeaData: boolean = false;       // Whether any valid NMEA sentence has been received
+  fixQuality: number = 0;             // GGA fix quality (see getFixQualityName in Nmea)
+  satelliteCount: number = 0;         // Number of satellites used in the solution
+  satellitesInView: number = 0;       // Number of satellites in view
+  hdop: number = 0;                   // Horizontal dilution of precision
+  nmeaCourse: number = 0;             // Course over ground reported by the receiver in degrees clockwise from true north
+  course: number = 0;                 // Latest course over ground from the receiver, v1 location payloads or the motion topic
   
   private module = require("LensStudio:SpectaclesMobileKitModule");
 
   private session: any = null;
 
+  private sessionState: MobileKitSessionState = 'idle';
+
+  /** Number of reconnection attempts since the last successful connection */
+  private reconnectAttempt: number = 0;
+
+  /** Time at which the next reconnection attempt is made, in seconds (getTime()) */
+  private reconnectTime: number = 0;
+
+  /** Event for the connect timeout and the delayed reconnection attempts */
+  private sessionTimerEvent: DelayedCallbackEvent;
+
+  /** Whether received locations are currently being published */
+  private running: boolean = false;
+
+  /** The most recent location fix */
+  private lastFix: LocationFix = null;
+
+  /** Number of location and phone sensor messages rejected by the payload validation */
+  private rejectedMessageCount: number = 0;
+
+  /** Error of the most recently rejected message, '' if none */
+  private lastPayloadError: string = '';
+
+  /** Estimates the round-trip time and the phone clock offset from the ping replies */
+  private clockSync: ClockSync = new ClockSync();
+
+  /** Event to send the periodic pings */
+  private pingEvent: DelayedCallbackEvent;
+
+  /** Local send times of the unanswered pings in milliseconds since epoch, by ping id */
+  private pendingPings: Map<number, number> = new Map();
+  private nextPingId: number = 1;
+
+  /** Latencies of the recent fixes in milliseconds */
+  private latencySamples: RingBuffer<number>;
+
+  /** Latency of the most recent fix in milliseconds, null if unknown */
+  private lastFixLatency: number | null = null;
+
+  /** Handlers of additional topics subscribed to by other components, by topic */
+  private topicHandlers: Map<string, ((message: string) => void)[]> = new Map();
+
+  /** Combines the received NMEA sentences into fixes */
+  private nmeaFixAssembler: NmeaFixAssembler = new NmeaFixAssembler(MobileKitManager.SOURCE_ID);
+
+  private onFixEvent = new Event<LocationFix>();
+  public onFix = this.onFixEvent.publicApi();
+
+  /** Invoked with the phone heading in degrees clockwise from true north, whenever a new heading is received */
+  private onHeadingUpdateEvent = new Event<number>();
+  public onHeadingUpdate = this.onHeadingUpdateEvent.publicApi();
+
+  private onSessionStateChangedEvent = new Event<MobileKitSessionState>();
+  public onSessionStateChanged = this.onSessionStateChangedEvent.publicApi();
+
   async onAwake() {
+    LocationSourceRegistry.getInstance().register(this);
+
+    this.sessionTimerEvent = this.createEvent('DelayedCallbackEvent');
+    this.sessionTimerEvent.bind(() => {
+      this.onSessionTimer();
+    });
+
+    this.latencySamples = new RingBuffer<number>(this.latencyWindow);
+    this.pingEvent = this.createEvent('DelayedCallbackEvent');
+    this.pingEvent.bind(() => {
+      if (this.sessionState === 'connected') {
+        this.sendPing();
+        this.pingEvent.reset(this.pingInterval);
+      }
+    });
+
     this.createEvent("OnStartEvent").bind(() => {
       this.onStart();
     });
   }
 
   async onStart() {
+    this.start();
+  }
+
+  /**
+   * Starts the Mobile Kit session on first use, and publishes received locations from then on.
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
     if (global.deviceInfoSystem.isEditor()) {
-      print("onStart() - Mobile Kit is not available in the Lens Studio editor");
+      print("start() - Mobile Kit is not available in the Lens Studio editor");
       return;
     }
 
-    print("onStart() - Mobile Kit starting on Spectacles");
-    await this.startSession();
+    if (this.sessionState === 'idle') {
+      print("start() - Mobile Kit starting on Spectacles");
+      this.startSession();
+    }
+  }
+
+  getSessionState(): MobileKitSessionState {
+    return this.sessionState;
+  }
+
+  /**
+   * Number of reconnection attempts since the last successful connection.
+   */
+  getReconnectAttempt(): number {
+    return this.reconnectAttempt;
+  }
+
+  /**
+   * Time until the next reconnection attempt while disconnected.
+   * @returns The time in seconds, 0 when no reconnection is pending
+   */
+  getTimeUntilReconnect(): number {
+    if (this.sessionState !== 'disconnected' || !this.autoReconnect) {
+      return 0;
+    }
+    return Math.max(0, this.reconnectTime - getTime());
   }
 
   /**
-   * Starts the Mobile Kit session and subscribes to GPS location updates.
-   * @returns A promise that resolves when the session is connected and the GPS location subscription is started.
+   * Creates a new session right away, e.g. after the reconnection attempts failed. Resets the backoff.
    */
-  private async startSession(): Promise<void> {
+  reconnect() {
+    if (global.deviceInfoSystem.isEditor()) {
+      return;
+    }
+    this.reconnectAttempt = 0;
+    this.startSession();
+  }
+
+  /**
+   * Stops publishing received locations. The session itself is kept open, see the readme for
+   * the current limitations around closing Mobile Kit sessions.
+   */
+  stop() {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getLastFix(): LocationFix | null {
+    return this.lastFix;
+  }
+
+  /**
+   * Creates a new Mobile Kit session and waits for it to connect. The subscriptions are started when it connects,
+   * and a reconnection is scheduled when it disconnects or doesn't connect within connectTimeout.
+   * The previous session, if any, is closed first.
+   */
+  private startSession(): void {
+    print("startSession() - Awaiting session connection");
+    this.setSessionState('connecting');
+    this.closeSession();
+
     try {
-      print("startSession() - Awaiting session connection");
-
-      this.session = await new Promise((resolve, reject) => {
-        const session = this.module.createSession();
-        session.onDisconnected.add(() => {
-          print("startSession() - session.onDisconnected callback triggered");
-        });
-        session.onConnected.add(() => {
-          print("startSession() - session.onConnected callback triggered");
-          resolve(session);
-        });
-        session.start();
+      const session = this.module.createSession();
+      this.session = session;
+
+      session.onConnected.add(() => {
+        // Ignore callbacks of abandoned sessions
+        if (session !== this.session) {
+          return;
+        }
+        this.onSessionConnected(session);
+      });
+      session.onDisconnected.add(() => {
+        if (session !== this.session) {
+          return;
+        }
+        print("startSession() - session.onDisconnected callback triggered");
+        this.scheduleReconnect();
       });
+      session.start();
 
-      const session = this.session;
-      print("startSession() - Session connected");
+      this.sessionTimerEvent.reset(this.connectTimeout);
+    } catch (error) {
+      print(`startSession() - Error: ${error}`);
+      this.scheduleReconnect();
+    }
+  }
 
-      this.startGPSLocationSubscription(session);
+  /**
+   * Closes the current session, if any, so a replaced session doesn't stay open next to the new one.
+   * Its callbacks are ignored from here on.
+   */
+  private closeSession() {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    this.session = null;
 
+    try {
+      session.close();
     } catch (error) {
-      print(`startSession() - Error: ${error}`);
+      print(`closeSession() - Error: ${error}`);
+    }
+  }
+
+  /**
+   * Starts the subscriptions on a newly connected session. Also called when a session connects again,
+   * as the subscriptions don't survive a disconnection.
+   */
+  private onSessionConnected(session: any) {
+    print("onSessionConnected() - Session connected");
+    this.reconnectAttempt = 0;
+    // The phone on the other end may be a different one, or its clock may have changed
+    this.clockSync.reset();
+    this.setSessionState('connected');
+
+    this.startGPSLocationSubscription(session);
+    if (this.nmeaTopic !== '') {
+      this.startNmeaSubscription(session);
+    }
+    if (this.headingTopic !== '') {
+      this.startHeadingSubscription(session);
+    }
+    if (this.motionTopic !== '') {
+      this.startMotionSubscription(session);
+    }
+    if (this.barometerTopic !== '') {
+      this.startBarometerSubscription(session);
+    }
+    this.topicHandlers.forEach((handlers, topic) => {
+      this.startTopicSubscription(session, topic);
+    });
+    if (this.pingInterval > 0) {
+      this.pendingPings.clear();
+      this.startPongSubscription(session);
+      this.sendPing();
+      this.pingEvent.reset(this.pingInterval);
     }
   }
 
+  /**
+   * Moves to the disconnected state and schedules a new session after the backoff delay,
+   * or moves to the failed state when reconnecting is disabled or the attempts are used up.
+   */
+  private scheduleReconnect() {
+    if (!this.autoReconnect || (this.maxReconnectAttempts > 0 && this.reconnectAttempt >= this.maxReconnectAttempts)) {
+      print("scheduleReconnect() - Not reconnecting, Mobile Kit session failed");
+      this.setSessionState('failed');
+      return;
+    }
+
+    const delay = Math.min(this.reconnectMaxDelay, this.reconnectInitialDelay * Math.pow(2, this.reconnectAttempt));
+    this.reconnectAttempt++;
+    this.reconnectTime = getTime() + delay;
+    print(`scheduleReconnect() - Reconnection attempt ${this.reconnectAttempt} in ${delay.toFixed(0)}s`);
+
+    this.setSessionState('disconnected');
+    this.sessionTimerEvent.reset(delay);
+  }
+
+  /**
+   * Handles the session timer: a connect timeout while connecting, a reconnection attempt while disconnected.
+   */
+  private onSessionTimer() {
+    if (this.sessionState === 'connecting') {
+      print("onSessionTimer() - Session didn't connect within " + this.connectTimeout + "s");
+      this.scheduleReconnect();
+    } else if (this.sessionState === 'disconnected') {
+      this.startSession();
+    }
+  }
+
+  private setSessionState(state: MobileKitSessionState) {
+    if (this.sessionState === state) {
+      return;
+    }
+    this.sessionState = state;
+    this.onSessionStateChangedEvent.invoke(state);
+  }
+
+  /**
+   * Sends a JSON message to the mobile app over the Mobile Kit session.
+   * @param topic Topic of the message, added to the JSON object as 'topic' (same convention as the incoming messages)
+   * @param payload The data to send, serialized to JSON
+   * @returns true when the message was handed to the session, false when there is no connected session
+   */
+  sendMessage(topic: string, payload: object): boolean {
+    if (this.sessionState !== 'connected') {
+      print(`sendMessage() - No connected Mobile Kit session, not sending message on topic: ${topic}`);
+      return false;
+    }
+
+    try {
+      this.session.sendData(JSON.stringify({ topic: topic, ...payload }));
+      return true;
+    } catch (error) {
+      print(`sendMessage() - Error sending message on topic ${topic}: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Subscribes to an additional topic from the mobile app, e.g. for commands. The subscription is started
+   * on every (re)connected session, also when the handler is added while connected.
+   * @param topic Topic of the messages
+   * @param handler Function invoked with every received message on the topic
+   */
+  subscribeTopic(topic: string, handler: (message: string) => void): void {
+    if (!this.topicHandlers.has(topic)) {
+      this.topicHandlers.set(topic, []);
+      if (this.sessionState === 'connected') {
+        this.startTopicSubscription(this.session, topic);
+      }
+    }
+    this.topicHandlers.get(topic).push(handler);
+  }
+
+  /**
+   * Starts the subscription of an additional topic and passes the messages on to its handlers.
+   * @param session The session object created by the Mobile Kit module.
+   */
+  private startTopicSubscription(session: any, topic: string): void {
+    const subscription = session.startSubscription(
+      topic,
+      (error) => {
+        print(`startTopicSubscription() - Subscription error on topic ${topic}: ${error}`);
+      }
+    );
+    subscription.add((response) => {
+      if (session !== this.session) {
+        return;
+      }
+      this.topicHandlers.get(topic).forEach((handler) => handler(response));
+    });
+  }
+
   /**
    * Subscribes to GPS location updates from the paired mobile device.
    * @param session The session object created by the Mobile Kit module.
@@ -98,41 +519,375 @@ export class MobileKitManager extends BaseScriptComponent {
     );
     subscription.add((response) => {
       print(`startGPSLocationSubscription() - GPS Location subscription response: ${response}`);
+
+      if (!this.running || session !== this.session) {
+        return;
+      }
       
-      // Example response received from mobile app: {"topic":"gps-location","latitude":52.21750581234997,"longitude":5.169571210164693,"horizontal_accuracy":9.08040550891218,"altitude":15.312027490314826,"vertical_accuracy":30.0}
-      
-      try {
-        // Parse the JSON string response
-        const locationData = JSON.parse(response);
-        
-        // Store the parsed values in the class properties
-        if (locationData.latitude !== undefined) {
-          this.latitude = locationData.latitude;
-        }
-        if (locationData.longitude !== undefined) {
-          this.longitude = locationData.longitude;
-        }
-        if (locationData.horizontal_accuracy !== undefined) {
-          this.horizontalAccuracy = locationData.horizontal_accuracy;
-        }
-        if (locationData.altitude !== undefined) {
-          this.altitude = locationData.altitude;
-        }
-        if (locationData.vertical_accuracy !== undefined) {
-          this.verticalAccuracy = locationData.vertical_accuracy;
+      // See MobileKitPayload for the v0 and v1 message formats
+      const result = parseMobileKitLocationPayload(response);
+      if (result.error !== null) {
+        this.rejectMessage('GPS location', result.error);
+        return;
+      }
+
+      const receiveTime = Date.now();
+      const payload = result.payload;
+      this.payloadVersion = payload.version;
+      this.latitude = payload.latitude;
+      this.longitude = payload.longitude;
+      this.horizontalAccuracy = payload.horizontalAccuracy;
+      this.altitude = payload.altitude;
+      this.verticalAccuracy = payload.verticalAccuracy;
+      if (payload.speed !== null) {
+        this.speed = payload.speed;
+      }
+      if (payload.course !== null) {
+        this.course = payload.course;
+        this.phoneCourse = payload.course;
+      }
+
+      // The phone timestamp is converted to the Spectacles clock, so the age of the fix is right even when the
+      // phone clock is off. Until the clock offset is known, the time of reception is used instead
+      const hasPhoneTime = payload.timestamp !== null && this.clockSync.hasEstimate();
+      this.lastFix = createLocationFix(
+        this.sourceId,
+        this.latitude,
+        this.longitude,
+        this.horizontalAccuracy,
+        this.altitude,
+        this.verticalAccuracy,
+        payload.source,
+        hasPhoneTime ? this.clockSync.toLocalTime(payload.timestamp) : receiveTime
+      );
+      if (hasPhoneTime) {
+        this.recordLatency(receiveTime - this.lastFix.timestamp);
+      }
+
+      // Publish the new location data
+      this.newMobileKitDataAvailable();
+
+      if (payload.heading !== null) {
+        this.updateHeading(payload.heading, this.lastFix.timestamp);
+      }
+    });
+  }
+
+  /**
+   * Subscribes to the compass heading of the paired mobile device.
+   * @param session The session object created by the Mobile Kit module.
+   */
+  private startHeadingSubscription(session: any): void {
+    const subscription = session.startSubscription(
+      this.headingTopic,
+      (error) => {
+        print(`startHeadingSubscription() - Phone heading subscription error: ${error}`);
+      }
+    );
+    subscription.add((response) => {
+      if (!this.running || session !== this.session) {
+        return;
+      }
+
+      const result = parseMobileKitHeadingPayload(response);
+      if (result.error !== null) {
+        this.rejectMessage('phone heading', result.error);
+        return;
+      }
+
+      const payload = result.payload;
+      this.magneticHeading = payload.magneticHeading;
+      this.headingAccuracy = payload.headingAccuracy;
+
+      // Without a true heading from the phone, correct the magnetic heading with the declination at the last fix
+      let trueHeading = payload.trueHeading;
+      if (trueHeading === null) {
+        const declination = this.lastFix !== null ? getMagneticDeclination(this.latitude, this.longitude, this.altitude) : 0;
+        trueHeading = convertHeading(payload.magneticHeading, 'magnetic', 'true', declination);
+      }
+      this.updateHeading(trueHeading, payload.timestamp);
+    });
+  }
+
+  /**
+   * Subscribes to the speed and course over ground of the paired mobile device.
+   * @param session The session object created by the Mobile Kit module.
+   */
+  private startMotionSubscription(session: any): void {
+    const subscription = session.startSubscription(
+      this.motionTopic,
+      (error) => {
+        print(`startMotionSubscription() - Phone motion subscription error: ${error}`);
+      }
+    );
+    subscription.add((response) => {
+      if (!this.running || session !== this.session) {
+        return;
+      }
+
+      const result = parseMobileKitMotionPayload(response);
+      if (result.error !== null) {
+        this.rejectMessage('phone motion', result.error);
+        return;
+      }
+
+      const payload = result.payload;
+      if (payload.speed !== null) {
+        this.speed = payload.speed;
+        this.speedAccuracy = payload.speedAccuracy;
+      }
+      if (payload.course !== null) {
+        this.course = payload.course;
+        this.phoneCourse = payload.course;
+        this.courseAccuracy = payload.courseAccuracy;
+      }
+      this.motionTimestamp = payload.timestamp;
+    });
+  }
+
+  /**
+   * Subscribes to the barometer readings of the paired mobile device.
+   * @param session The session object created by the Mobile Kit module.
+   */
+  private startBarometerSubscription(session: any): void {
+    const subscription = session.startSubscription(
+      this.barometerTopic,
+      (error) => {
+        print(`startBarometerSubscription() - Phone barometer subscription error: ${error}`);
+      }
+    );
+    subscription.add((response) => {
+      if (!this.running || session !== this.session) {
+        return;
+      }
+
+      const result = parseMobileKitBarometerPayload(response);
+      if (result.error !== null) {
+        this.rejectMessage('phone barometer', result.error);
+        return;
+      }
+
+      const payload = result.payload;
+      this.pressure = payload.pressure;
+      this.relativeAltitude = payload.relativeAltitude;
+      this.barometricAltitude = payload.altitude;
+      this.barometricAltitudeAccuracy = payload.altitudeAccuracy;
+      this.barometerTimestamp = payload.timestamp;
+    });
+  }
+
+  /**
+   * Subscribes to the replies to the pings, to measure the round-trip time and the clock offset.
+   * @param session The session object created by the Mobile Kit module.
+   */
+  private startPongSubscription(session: any): void {
+    const subscription = session.startSubscription(
+      this.pongTopic,
+      (error) => {
+        print(`startPongSubscription() - Ping reply subscription error: ${error}`);
+      }
+    );
+    subscription.add((response) => {
+      const receiveTime = Date.now();
+      if (session !== this.session) {
+        return;
+      }
+
+      const result = parseMobileKitPongPayload(response);
+      if (result.error !== null) {
+        this.rejectMessage('ping reply', result.error);
+        return;
+      }
+
+      // Only accept replies to our own pings, using our own record of the send time
+      const sendTime = this.pendingPings.get(result.payload.id);
+      if (sendTime === undefined) {
+        return;
+      }
+      this.pendingPings.delete(result.payload.id);
+      this.clockSync.addSample(sendTime, result.payload.receiveTime, result.payload.replyTime, receiveTime);
+    });
+  }
+
+  /**
+   * Sends a ping with the current time to the mobile app, and forgets pings that were never answered.
+   */
+  private sendPing() {
+    const now = Date.now();
+    this.pendingPings.forEach((sendTime, id) => {
+      if (now - sendTime > PING_TIMEOUT) {
+        this.pendingPings.delete(id);
+      }
+    });
+
+    const id = this.nextPingId++;
+    if (this.sendMessage(this.pingTopic, { id: id, sent_time: now })) {
+      this.pendingPings.set(id, now);
+    }
+  }
+
+  /**
+   * Adds the latency of a fix to the statistics. Only called once the clock offset is known.
+   */
+  private recordLatency(latency: number) {
+    this.lastFixLatency = latency;
+    this.latencySamples.push(latency);
+  }
+
+  /**
+   * Estimated offset of the phone clock from the Spectacles clock.
+   * @returns The offset in milliseconds, positive when the phone clock is ahead, null before the first ping reply
+   */
+  getClockOffset(): number | null {
+    return this.clockSync.hasEstimate() ? this.clockSync.getOffset() : null;
+  }
+
+  /**
+   * Round-trip time of the ping the clock offset is estimated from (the fastest of the recent pings).
+   * @returns The round-trip time in milliseconds, null before the first ping reply
+   */
+  getRoundTripTime(): number | null {
+    return this.clockSync.hasEstimate() ? this.clockSync.getRoundTripTime() : null;
+  }
+
+  /**
+   * Returns the round-trip time of the most recent ping, in milliseconds, null before the first ping reply.
+   */
+  getLatestRoundTripTime(): number | null {
+    return this.clockSync.hasEstimate() ? this.clockSync.latestRoundTripTime : null;
+  }
+
+  /**
+   * Latency of the most recent fix: the time from the phone taking the fix to the Lens receiving it.
+   * @returns The latency in milliseconds, null when unknown (no phone timestamp, or clock offset not measured yet)
+   */
+  getLastFixLatency(): number | null {
+    return this.lastFixLatency;
+  }
+
+  /**
+   * Returns the latency statistics over the recent fixes, in milliseconds.
+   */
+  getLatencyStatistics(): SummaryStatistics {
+    return getSummaryStatistics(this.latencySamples.toArray());
+  }
+
+  /**
+   * Stores a new true north heading of the phone and publishes it to all onHeadingUpdate listeners.
+   */
+  private updateHeading(heading: number, timestamp: number) {
+    this.heading = heading;
+    this.headingTimestamp = timestamp;
+    this.onHeadingUpdateEvent.invoke(heading);
+  }
+
+  /**
+   * Counts a message rejected by the payload validation and remembers why.
+   */
+  private rejectMessage(messageType: string, error: string) {
+    this.rejectedMessageCount++;
+    this.lastPayloadError = error;
+    print(`rejectMessage() - Rejected ${messageType} message: ${error}`);
+  }
+
+  /**
+   * Returns the number of location and phone sensor messages rejected by the payload validation.
+   */
+  getRejectedMessageCount(): number {
+    return this.rejectedMessageCount;
+  }
+
+  /**
+   * Returns why the most recently rejected message was rejected, '' if none was rejected.
+   */
+  getLastPayloadError(): string {
+    return this.lastPayloadError;
+  }
+
+  /**
+   * Returns the number of NMEA sentences rejected because of a wrong checksum or malformed content.
+   */
+  getRejectedNmeaSentenceCount(): number {
+    return this.nmeaFixAssembler.checksumErrors + this.nmeaFixAssembler.invalidSentences;
+  }
+
+  /**
+   * Subscribes to NMEA sentences relayed by the mobile app from an external GNSS receiver.
+   * @param session The session object created by the Mobile Kit module.
+   */
+  private startNmeaSubscription(session: any): void {
+    const subscription = session.startSubscription(
+      this.nmeaTopic,
+      (error) => {
+        print(`startNmeaSubscription() - NMEA subscription error: ${error}`);
+      }
+    );
+    subscription.add((response) => {
+      if (!this.running || session !== this.session) {
+        return;
+      }
+
+      // The mobile app sends either the raw sentences, or a JSON object with the sentences, e.g.
+      // {"topic":"nmea","sentences":"$GNGGA,...*4F\r\n$GNRMC,...*6A\r\n"}
+      let sentences: string = response;
+      if (response.trim().charAt(0) === '{') {
+        try {
+          const nmeaData = JSON.parse(response);
+          sentences = nmeaData.sentences !== undefined ? nmeaData.sentences : nmeaData.sentence;
+        } catch (error) {
+          print(`startNmeaSubscription() - Error parsing NMEA message: ${error}`);
+          return;
         }
-        
-        // Update the UI with the new location data
-        this.newMobileKitDataAvailable();
-      } catch (error) {
-        print(`startGPSLocationSubscription() - Error parsing GPS location data: ${error}`);
       }
+      if (typeof sentences !== 'string') {
+        print(`startNmeaSubscription() - Error: no NMEA sentences in message: ${response}`);
+        return;
+      }
+
+      sentences.split(/\r?\n/).forEach((sentence) => {
+        if (sentence.trim() !== '') {
+          this.processNmeaSentence(sentence);
+        }
+      });
     });
   }
 
+  /**
+   * Processes one NMEA sentence, updates the receiver status, and publishes a new fix when the sentence completed one.
+   */
+  private processNmeaSentence(sentence: string) {
+    const rejectedCount = this.getRejectedNmeaSentenceCount();
+    const fix = this.nmeaFixAssembler.process(sentence);
+    if (this.getRejectedNmeaSentenceCount() !== rejectedCount) {
+      return;
+    }
+
+    this.hasNmeaData = true;
+    this.fixQuality = this.nmeaFixAssembler.fixQuality;
+    this.satelliteCount = this.nmeaFixAssembler.satelliteCount;
+    this.satellitesInView = this.nmeaFixAssembler.satellitesInView;
+    this.hdop = this.nmeaFixAssembler.hdop;
+    this.nmeaCourse = this.nmeaFixAssembler.course;
+    this.course = this.nmeaCourse;
+
+    if (fix === null) {
+      return;
+    }
+
+    this.latitude = fix.latitude;
+    this.longitude = fix.longitude;
+    this.horizontalAccuracy = fix.horizontalAccuracy;
+    this.altitude = fix.altitude;
+    this.verticalAccuracy = fix.verticalAccuracy;
+    this.lastFix = fix;
+
+    // Publish the new location data
+    this.newMobileKitDataAvailable();
+  }
+
   /**
    * Callback function for when new mobile kit data is available.
-   * Updates the content manager with the new mobile kit data.
+   * Publishes the new fix to all onFix listeners.
    */
   private newMobileKitDataAvailable() {
     // Log the data.
@@ -143,6 +898,6 @@ export class MobileKitManager extends BaseScriptComponent {
     //   ' altitude: ' + this.altitude.toFixed(0) + 'm' +
     //   ' verticalAccuracy: ' + this.verticalAccuracy.toFixed(0) + 'm';
 
-    this.floatingDetailsUIContentManager.updateContent();
+    this.onFixEvent.invoke(this.lastFix);
   }
 }
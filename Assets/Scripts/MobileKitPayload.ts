@@ -0,0 +1,486 @@
+/**
+ * MobileKitPayload - Versioned schema and validation of the messages sent by the mobile app
+ *
+ * The mobile app sends its location as a JSON message on the 'gps-location' topic. The original (v0) message has
+ * no version field and only carries the position (vertical_accuracy may be left out, it then defaults to 0):
+ *   {"topic":"gps-location","latitude":52.2175,"longitude":5.1695,"horizontal_accuracy":9.1,"altitude":15.3,"vertical_accuracy":30.0}
+ *
+ * Version 1 adds a version number, the time the phone determined the location, the location source on the phone,
+ * and the heading, speed and course:
+ *   {"topic":"gps-location","version":1,"timestamp":1760000000000,"latitude":52.2175,"longitude":5.1695,
+ *    "horizontal_accuracy":9.1,"altitude":15.3,"vertical_accuracy":30.0,"source":"GNSS_RECEIVER",
+ *    "heading":87.5,"speed":1.3,"course":92.0}
+ *
+ * Every message is validated as a whole: a message with a missing or out of range field is rejected with a
+ * descriptive error, instead of partially updating the stored location. Following the iOS conventions, a negative
+ * heading, speed or course means the value is unavailable, and a negative vertical accuracy means the altitude is
+ * unavailable.
+ *
+ * Besides the location, the mobile app can send its sensor data on separate topics (all fields except the
+ * required ones may be left out, the timestamp defaults to the time of reception):
+ * - 'phone-heading': compass heading, magnetic_heading is required
+ *   {"topic":"phone-heading","timestamp":1760000000000,"true_heading":87.5,"magnetic_heading":86.1,"heading_accuracy":5.0}
+ * - 'phone-motion': speed and course over ground, at least one of them is required
+ *   {"topic":"phone-motion","timestamp":1760000000000,"speed":1.3,"speed_accuracy":0.4,"course":92.0,"course_accuracy":8.0}
+ * - 'phone-barometer': barometric pressure in kPa (required), altitude change since the start of the measurement,
+ *   and the absolute barometric altitude where the phone supports it
+ *   {"topic":"phone-barometer","timestamp":1760000000000,"pressure":101.2,"relative_altitude":1.5,"altitude":14.2,"altitude_accuracy":2.0}
+ *
+ * To measure the latency, the Lens sends pings with its own clock time, which the mobile app answers immediately
+ * with the times (phone clock, milliseconds since epoch) at which it received the ping and sent the reply:
+ * - 'ping' (Lens to phone): {"topic":"ping","id":12,"sent_time":1760000000000}
+ * - 'pong' (phone to Lens): {"topic":"pong","id":12,"sent_time":1760000000000,"receive_time":1760000001520,"reply_time":1760000001521}
+ *   reply_time may be left out when the reply is sent right away, it then equals receive_time
+ *
+ * The mobile app can remote control the Lens with commands on the 'command' topic, each with an id that is
+ * echoed in the acknowledgement (see MobileKitCommandHandler):
+ *   {"topic":"command","id":7,"command":"set-map-location","latitude":52.37,"longitude":4.89}
+ * Commands and their fields: set-map-location (latitude, longitude), clear-map-location, drop-pin (optional latitude
+ * and longitude, the user location when absent), start-recording, stop-recording, set-location-source (source_id),
+ * zoom (level, or delta relative to the current level) and get-status.
+ *
+ * Key Features:
+ * - Typed, versioned location payload (v0 and v1)
+ * - Typed heading, motion and barometer payloads
+ * - Typed ping reply payload for the round-trip time and clock offset measurement
+ * - Typed remote control commands
+ * - Validation of types and ranges with descriptive errors
+ * - Backward compatible with v0 messages without a version field
+ */
+
+/** Latest payload version understood by the Lens */
+export const MOBILE_KIT_PAYLOAD_VERSION = 1;
+
+/** A validated location message from the mobile app */
+export type MobileKitLocationPayload = {
+  version: number;                    // Payload version, 0 for messages without a version field
+  timestamp: number | null;           // Time the phone determined the location in milliseconds since epoch, null for v0
+  latitude: number;                   // Latitude in degrees
+  longitude: number;                  // Longitude in degrees
+  horizontalAccuracy: number;         // Accuracy of lat/long in meters
+  altitude: number;                   // Altitude in meters
+  verticalAccuracy: number;           // Accuracy of altitude in meters, 0 when the altitude is unavailable
+  source: string;                     // Location source on the phone (preferably the Spectacles names, e.g. GNSS_RECEIVER), '' if not reported
+  heading: number | null;             // Heading of the phone in degrees clockwise from north, null if unavailable
+  speed: number | null;               // Speed over ground in meters per second, null if unavailable
+  course: number | null;              // Course over ground in degrees clockwise from north, null if unavailable
+};
+
+/** A validated compass message from the mobile app */
+export type MobileKitHeadingPayload = {
+  timestamp: number;                  // Time of the heading in milliseconds since epoch
+  trueHeading: number | null;         // Heading in degrees clockwise from true north, null if unavailable
+  magneticHeading: number;            // Heading in degrees clockwise from magnetic north
+  headingAccuracy: number | null;     // Maximum deviation of the heading in degrees, null if unknown (e.g. not calibrated)
+};
+
+/** A validated motion message from the mobile app */
+export type MobileKitMotionPayload = {
+  timestamp: number;                  // Time of the measurement in milliseconds since epoch
+  speed: number | null;               // Speed over ground in meters per second, null if unavailable
+  speedAccuracy: number | null;       // Accuracy of the speed in meters per second, null if unknown
+  course: number | null;              // Course over ground in degrees clockwise from true north, null if unavailable
+  courseAccuracy: number | null;      // Accuracy of the course in degrees, null if unknown
+};
+
+/** A validated barometer message from the mobile app */
+export type MobileKitBarometerPayload = {
+  timestamp: number;                  // Time of the measurement in milliseconds since epoch
+  pressure: number;                   // Barometric pressure in kPa
+  relativeAltitude: number | null;    // Altitude change since the start of the measurement in meters, null if unavailable
+  altitude: number | null;            // Absolute barometric altitude in meters, null if unavailable
+  altitudeAccuracy: number | null;    // Accuracy of the absolute altitude in meters, null if unknown
+};
+
+/** A validated ping reply from the mobile app, all times in milliseconds since epoch */
+export type MobileKitPongPayload = {
+  id: number;                         // Id of the ping this is the reply to
+  sentTime: number;                   // Lens time at which the ping was sent, echoed back
+  receiveTime: number;                // Phone time at which the ping was received
+  replyTime: number;                  // Phone time at which the reply was sent
+};
+
+/** A validated remote control command from the mobile app */
+export type MobileKitCommand =
+  | { id: number; command: 'set-map-location'; latitude: number; longitude: number }
+  | { id: number; command: 'clear-map-location' }
+  | { id: number; command: 'drop-pin'; latitude: number | null; longitude: number | null }
+  | { id: number; command: 'start-recording' }
+  | { id: number; command: 'stop-recording' }
+  | { id: number; command: 'set-location-source'; sourceId: string }
+  | { id: number; command: 'zoom'; level: number | null; delta: number | null }
+  | { id: number; command: 'get-status' };
+
+/** Result of parsing a message: the payload, or an error describing why the message was rejected */
+export type MobileKitPayloadParseResult<T = MobileKitLocationPayload> =
+  | { payload: T; error: null }
+  | { payload: null; error: string };
+
+/**
+ * Parses and validates a location message from the mobile app.
+ * @param message The JSON message
+ * @returns The validated payload, or a descriptive error when the message is rejected
+ */
+export function parseMobileKitLocationPayload(message: string): MobileKitPayloadParseResult {
+  const data = parseJsonObject(message);
+  if (typeof data === 'string') {
+    return reject(data);
+  }
+
+  let version = 0;
+  if (data.version !== undefined) {
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 0) {
+      return reject('version must be a non-negative integer, got ' + JSON.stringify(data.version));
+    }
+    if (data.version > MOBILE_KIT_PAYLOAD_VERSION) {
+      return reject('unsupported version ' + data.version + ' (supported up to ' + MOBILE_KIT_PAYLOAD_VERSION + ')');
+    }
+    version = data.version;
+  }
+
+  const error =
+    checkNumber(data, 'latitude', -90, 90) ||
+    checkNumber(data, 'longitude', -180, 180) ||
+    checkNumber(data, 'horizontal_accuracy', 0, Infinity) ||
+    checkNumber(data, 'altitude', -Infinity, Infinity) ||
+    (version === 0 ?
+      checkOptionalNumber(data, 'vertical_accuracy', Infinity) :
+      checkNumber(data, 'vertical_accuracy', -Infinity, Infinity));
+  if (error !== null) {
+    return reject(error);
+  }
+
+  const payload: MobileKitLocationPayload = {
+    version: version,
+    timestamp: null,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    horizontalAccuracy: data.horizontal_accuracy,
+    altitude: data.altitude,
+    verticalAccuracy: data.vertical_accuracy !== undefined && data.vertical_accuracy !== null ?
+      Math.max(0, data.vertical_accuracy) : 0,
+    source: '',
+    heading: null,
+    speed: null,
+    course: null,
+  };
+
+  if (version >= 1) {
+    const v1Error =
+      checkNumber(data, 'timestamp', 0, Infinity) ||
+      checkOptionalString(data, 'source') ||
+      checkOptionalNumber(data, 'heading', 360) ||
+      checkOptionalNumber(data, 'speed', Infinity) ||
+      checkOptionalNumber(data, 'course', 360);
+    if (v1Error !== null) {
+      return reject(v1Error);
+    }
+
+    payload.timestamp = data.timestamp;
+    payload.source = data.source !== undefined && data.source !== null ? data.source : '';
+    payload.heading = getOptionalNumber(data.heading);
+    payload.speed = getOptionalNumber(data.speed);
+    payload.course = getOptionalNumber(data.course);
+  }
+
+  return { payload: payload, error: null };
+}
+
+/**
+ * Parses and validates a compass message from the mobile app ('phone-heading' topic).
+ * @param message The JSON message
+ * @returns The validated payload, or a descriptive error when the message is rejected
+ */
+export function parseMobileKitHeadingPayload(message: string): MobileKitPayloadParseResult<MobileKitHeadingPayload> {
+  const data = parseJsonObject(message);
+  if (typeof data === 'string') {
+    return reject(data);
+  }
+
+  const error =
+    checkNumber(data, 'magnetic_heading', 0, Infinity) ||
+    checkOptionalNumber(data, 'magnetic_heading', 360) ||
+    checkOptionalNumber(data, 'true_heading', 360) ||
+    checkOptionalNumber(data, 'heading_accuracy', Infinity) ||
+    checkOptionalNumber(data, 'timestamp', Infinity);
+  if (error !== null) {
+    return reject(error);
+  }
+
+  return {
+    payload: {
+      timestamp: getTimestamp(data),
+      trueHeading: getOptionalNumber(data.true_heading),
+      magneticHeading: data.magnetic_heading,
+      headingAccuracy: getOptionalNumber(data.heading_accuracy),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Parses and validates a motion message from the mobile app ('phone-motion' topic).
+ * @param message The JSON message
+ * @returns The validated payload, or a descriptive error when the message is rejected
+ */
+export function parseMobileKitMotionPayload(message: string): MobileKitPayloadParseResult<MobileKitMotionPayload> {
+  const data = parseJsonObject(message);
+  if (typeof data === 'string') {
+    return reject(data);
+  }
+
+  const error =
+    checkOptionalNumber(data, 'speed', Infinity) ||
+    checkOptionalNumber(data, 'speed_accuracy', Infinity) ||
+    checkOptionalNumber(data, 'course', 360) ||
+    checkOptionalNumber(data, 'course_accuracy', Infinity) ||
+    checkOptionalNumber(data, 'timestamp', Infinity);
+  if (error !== null) {
+    return reject(error);
+  }
+  if (typeof data.speed !== 'number' && typeof data.course !== 'number') {
+    return reject('speed and course are both missing');
+  }
+
+  return {
+    payload: {
+      timestamp: getTimestamp(data),
+      speed: getOptionalNumber(data.speed),
+      speedAccuracy: getOptionalNumber(data.speed_accuracy),
+      course: getOptionalNumber(data.course),
+      courseAccuracy: getOptionalNumber(data.course_accuracy),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Parses and validates a barometer message from the mobile app ('phone-barometer' topic).
+ * @param message The JSON message
+ * @returns The validated payload, or a descriptive error when the message is rejected
+ */
+export function parseMobileKitBarometerPayload(message: string): MobileKitPayloadParseResult<MobileKitBarometerPayload> {
+  const data = parseJsonObject(message);
+  if (typeof data === 'string') {
+    return reject(data);
+  }
+
+  const error =
+    checkNumber(data, 'pressure', 0.000001, Infinity) ||
+    checkOptionalNumber(data, 'relative_altitude', Infinity) ||
+    checkOptionalNumber(data, 'altitude', Infinity) ||
+    checkOptionalNumber(data, 'altitude_accuracy', Infinity) ||
+    checkOptionalNumber(data, 'timestamp', Infinity);
+  if (error !== null) {
+    return reject(error);
+  }
+
+  return {
+    payload: {
+      timestamp: getTimestamp(data),
+      pressure: data.pressure,
+      // Altitudes can be negative, so negative values don't mean unavailable here
+      relativeAltitude: typeof data.relative_altitude === 'number' ? data.relative_altitude : null,
+      altitude: typeof data.altitude === 'number' ? data.altitude : null,
+      altitudeAccuracy: getOptionalNumber(data.altitude_accuracy),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Parses and validates a ping reply from the mobile app ('pong' topic).
+ * @param message The JSON message
+ * @returns The validated payload, or a descriptive error when the message is rejected
+ */
+export function parseMobileKitPongPayload(message: string): MobileKitPayloadParseResult<MobileKitPongPayload> {
+  const data = parseJsonObject(message);
+  if (typeof data === 'string') {
+    return reject(data);
+  }
+
+  const error =
+    checkNumber(data, 'id', 0, Infinity) ||
+    checkNumber(data, 'sent_time', 0, Infinity) ||
+    checkNumber(data, 'receive_time', 0, Infinity) ||
+    checkOptionalNumber(data, 'reply_time', Infinity);
+  if (error !== null) {
+    return reject(error);
+  }
+
+  const replyTime = getOptionalNumber(data.reply_time);
+  return {
+    payload: {
+      id: data.id,
+      sentTime: data.sent_time,
+      receiveTime: data.receive_time,
+      replyTime: replyTime !== null ? replyTime : data.receive_time,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Parses and validates a remote control command from the mobile app ('command' topic).
+ * @param message The JSON message
+ * @returns The validated command, or a descriptive error when the message is rejected
+ */
+export function parseMobileKitCommand(message: string): MobileKitPayloadParseResult<MobileKitCommand> {
+  const data = parseJsonObject(message);
+  if (typeof data === 'string') {
+    return reject(data);
+  }
+
+  const idError = checkNumber(data, 'id', 0, Infinity);
+  if (idError !== null) {
+    return reject(idError);
+  }
+  if (typeof data.command !== 'string') {
+    return reject('command must be a string, got ' + JSON.stringify(data.command));
+  }
+
+  const id: number = data.id;
+  let error: string | null = null;
+  switch (data.command) {
+    case 'set-map-location':
+      error = checkNumber(data, 'latitude', -90, 90) || checkNumber(data, 'longitude', -180, 180);
+      return error !== null ? reject(error) :
+        { payload: { id: id, command: data.command, latitude: data.latitude, longitude: data.longitude }, error: null };
+
+    case 'drop-pin':
+      if ((data.latitude === undefined) !== (data.longitude === undefined)) {
+        return reject('latitude and longitude must be given together');
+      }
+      error = data.latitude === undefined ? null :
+        checkNumber(data, 'latitude', -90, 90) || checkNumber(data, 'longitude', -180, 180);
+      return error !== null ? reject(error) : {
+        payload: {
+          id: id,
+          command: data.command,
+          latitude: data.latitude !== undefined ? data.latitude : null,
+          longitude: data.longitude !== undefined ? data.longitude : null,
+        },
+        error: null,
+      };
+
+    case 'set-location-source':
+      error = checkOptionalString(data, 'source_id');
+      if (error === null && typeof data.source_id !== 'string') {
+        error = 'source_id is missing';
+      }
+      return error !== null ? reject(error) :
+        { payload: { id: id, command: data.command, sourceId: data.source_id }, error: null };
+
+    case 'zoom':
+      error = (data.level !== undefined ? checkNumber(data, 'level', 1, 21) : null) ||
+        checkOptionalNumber(data, 'delta', Infinity);
+      if (error === null && typeof data.level !== 'number' && typeof data.delta !== 'number') {
+        error = 'level and delta are both missing';
+      }
+      return error !== null ? reject(error) : {
+        payload: {
+          id: id,
+          command: data.command,
+          level: typeof data.level === 'number' ? Math.round(data.level) : null,
+          delta: typeof data.delta === 'number' ? Math.round(data.delta) : null,
+        },
+        error: null,
+      };
+
+    case 'clear-map-location':
+    case 'start-recording':
+    case 'stop-recording':
+    case 'get-status':
+      return { payload: { id: id, command: data.command }, error: null };
+
+    default:
+      return reject('unknown command ' + JSON.stringify(data.command));
+  }
+}
+
+function reject<T>(error: string): MobileKitPayloadParseResult<T> {
+  return { payload: null, error: error };
+}
+
+/**
+ * Parses a message that must be a JSON object.
+ * @returns The object, or an error when the message is not valid JSON or not an object
+ */
+function parseJsonObject(message: string): any | string {
+  let data: any;
+  try {
+    data = JSON.parse(message);
+  } catch (error) {
+    return 'invalid JSON: ' + error;
+  }
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return 'message is not a JSON object';
+  }
+  return data;
+}
+
+/**
+ * Returns the timestamp of a validated message, the time of reception when absent.
+ */
+function getTimestamp(data: any): number {
+  const timestamp = getOptionalNumber(data.timestamp);
+  return timestamp !== null ? timestamp : Date.now();
+}
+
+/**
+ * Checks that a required field is a finite number in a range.
+ * @returns An error, or null when the field is valid
+ */
+function checkNumber(data: any, field: string, min: number, max: number): string | null {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    return field + ' is missing';
+  }
+  if (typeof value !== 'number' || !isFinite(value)) {
+    return field + ' must be a number, got ' + JSON.stringify(value);
+  }
+  if (value < min || value > max) {
+    return field + ' ' + value + ' is out of range [' + min + ', ' + max + ']';
+  }
+  return null;
+}
+
+/**
+ * Checks that an optional field is absent, null, negative (unavailable) or a finite number below a maximum.
+ * @returns An error, or null when the field is valid
+ */
+function checkOptionalNumber(data: any, field: string, max: number): string | null {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'number' || !isFinite(value)) {
+    return field + ' must be a number or null, got ' + JSON.stringify(value);
+  }
+  if (value >= max) {
+    return field + ' ' + value + ' is out of range (must be below ' + max + ')';
+  }
+  return null;
+}
+
+/**
+ * Checks that an optional field is absent, null or a string.
+ * @returns An error, or null when the field is valid
+ */
+function checkOptionalString(data: any, field: string): string | null {
+  const value = data[field];
+  if (value === undefined || value === null || typeof value === 'string') {
+    return null;
+  }
+  return field + ' must be a string, got ' + JSON.stringify(value);
+}
+
+/**
+ * Returns the value of a validated optional number field, null when absent or negative (unavailable).
+ */
+function getOptionalNumber(value: any): number | null {
+  if (value === undefined || value === null || value < 0) {
+    return null;
+  }
+  return value;
+}
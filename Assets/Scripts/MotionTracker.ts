@@ -0,0 +1,98 @@
+/**
+ * MotionTracker - Derives speed, course over ground, distance travelled and elapsed time from location fixes
+ *
+ * Fixes jitter by a few meters even when standing still, so comparing each fix with the previous one would report
+ * movement (and a random course) all the time. Instead, the tracker keeps an anchor fix and only counts a step once
+ * the position has moved further from the anchor than the accuracy of the fix allows. Speed is the distance from the
+ * anchor divided by the time since the anchor, so it decays towards zero when standing still, and the course is
+ * the bearing of the last step.
+ *
+ * Key Features:
+ * - Speed over ground and course over ground from consecutive fixes, robust against jitter
+ * - Cumulative distance travelled and elapsed time since the first fix
+ * - Moving/stationary state with a configurable speed threshold
+ */
+
+import { calculateBearing, getPhysicalDistanceBetweenLocations } from "../MapComponent/Scripts/MapUtils";
+import { normalizeDegrees } from "./GeoMath";
+import { LocationFix, locationFixToGeoPosition } from "./LocationSource";
+
+/** Minimum distance from the anchor fix before a step is counted, in meters */
+const MIN_STEP_DISTANCE = 2;
+
+export class MotionTracker {
+
+  /** Speed over ground in meters per second */
+  speed: number = 0;
+  /** Course over ground in degrees clockwise from north, the direction of the last step */
+  course: number = 0;
+  /** Distance travelled since the first fix in meters */
+  distance: number = 0;
+  /** Time since the first fix in seconds */
+  elapsedTime: number = 0;
+
+  /** Speed above which the user is considered to be moving, in meters per second */
+  movingSpeedThreshold: number;
+
+  private firstFix: LocationFix = null;
+  private anchorFix: LocationFix = null;
+  private lastTimestamp: number = 0;
+
+  /**
+   * @param movingSpeedThreshold Speed above which the user is considered to be moving, in meters per second
+   */
+  constructor(movingSpeedThreshold: number = 0.5) {
+    this.movingSpeedThreshold = movingSpeedThreshold;
+  }
+
+  /**
+   * Updates the speed, course, distance and elapsed time with a new fix. Fixes that are not newer
+   * than the previous fix are ignored.
+   * @param fix The new fix
+   */
+  update(fix: LocationFix) {
+    if (this.firstFix === null) {
+      this.firstFix = fix;
+      this.anchorFix = fix;
+      this.lastTimestamp = fix.timestamp;
+      return;
+    }
+    if (fix.timestamp <= this.lastTimestamp) {
+      return;
+    }
+    this.lastTimestamp = fix.timestamp;
+    this.elapsedTime = (fix.timestamp - this.firstFix.timestamp) / 1000;
+
+    const anchorPosition = locationFixToGeoPosition(this.anchorFix);
+    const position = locationFixToGeoPosition(fix);
+    const distanceFromAnchor = getPhysicalDistanceBetweenLocations(anchorPosition, position);
+
+    this.speed = distanceFromAnchor / ((fix.timestamp - this.anchorFix.timestamp) / 1000);
+
+    if (distanceFromAnchor >= Math.max(MIN_STEP_DISTANCE, fix.horizontalAccuracy / 2)) {
+      this.distance += distanceFromAnchor;
+      this.course = normalizeDegrees(calculateBearing(anchorPosition, position) * MathUtils.RadToDeg);
+      this.anchorFix = fix;
+    }
+  }
+
+  /**
+   * Whether the current speed is above movingSpeedThreshold.
+   */
+  isMoving(): boolean {
+    return this.speed >= this.movingSpeedThreshold;
+  }
+
+  /**
+   * Starts over: clears the speed, course, distance and elapsed time.
+   */
+  reset() {
+    this.speed = 0;
+    this.course = 0;
+    this.distance = 0;
+    this.elapsedTime = 0;
+    this.firstFix = null;
+    this.anchorFix = null;
+    this.lastTimestamp = 0;
+  }
+}
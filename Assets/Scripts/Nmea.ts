@@ -0,0 +1,528 @@
+/**
+ * Nmea - NMEA 0183 sentence parsing for external GNSS receivers
+ *
+ * External (RTK) GNSS receivers report their solution as NMEA 0183 sentences. This module validates the checksum
+ * of a sentence and parses the sentences needed to build a location fix: GGA (position, fix quality, satellites,
+ * HDOP, altitude), RMC (position, date, speed, course), GSA (DOP values, satellites used), GSV (satellites in view)
+ * and VTG (course and speed). Sentences from any talker (GP, GN, GL, GA, GB, ...) are accepted.
+ *
+ * NmeaFixAssembler combines the sentences of a receiver's output into LocationFixes, with a horizontal accuracy
+ * estimated from the HDOP and the fix quality, as NMEA has no accuracy field in the sentences parsed here.
+ *
+ * Key Features:
+ * - Checksum validation
+ * - Parsing of GGA, RMC, GSA, GSV and VTG sentences into typed objects
+ * - Assembly of sentences into LocationFixes with fix quality, satellite counts, DOP values, speed and course
+ * - Counters of sentences with a bad checksum and malformed sentences
+ */
+
+import { createLocationFix, LocationFix } from "./LocationSource";
+
+/** Meters per second in one knot */
+const KNOTS_TO_METERS_PER_SECOND = 1852 / 3600;
+
+/** Milliseconds in one day */
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Platform location source reported for fixes from an external receiver (see LocationManager.getShortLocationSource) */
+const NMEA_LOCATION_SOURCE = 'GNSS_RECEIVER';
+
+/**
+ * Typical user equivalent range error per GGA fix quality in meters, multiplied by the HDOP to estimate the
+ * horizontal accuracy. Rough values: a real receiver's accuracy depends on much more than the fix type.
+ */
+const USER_EQUIVALENT_RANGE_ERROR: { [fixQuality: number]: number } = {
+  1: 4,                               // GPS (autonomous)
+  2: 1,                               // DGPS / SBAS
+  3: 4,                               // PPS
+  4: 0.02,                            // RTK fixed
+  5: 0.3,                             // RTK float
+  6: 10,                              // Estimated (dead reckoning)
+  7: 1,                               // Manual input
+  8: 1,                               // Simulation
+};
+
+/** A satellite reported in a GSV sentence */
+export type NmeaSatellite = {
+  prn: number;                        // Satellite id
+  elevation: number | null;           // Elevation in degrees
+  azimuth: number | null;             // Azimuth in degrees clockwise from true north
+  snr: number | null;                 // Signal to noise ratio in dB-Hz, null when not tracked
+};
+
+/** GGA: Global positioning system fix data */
+export type NmeaGga = {
+  type: 'GGA';
+  talker: string;
+  timeOfDay: number | null;           // UTC time of the fix in milliseconds since midnight
+  latitude: number | null;            // Latitude in degrees
+  longitude: number | null;           // Longitude in degrees
+  fixQuality: number;                 // 0 = invalid, 1 = GPS, 2 = DGPS, 4 = RTK fixed, 5 = RTK float, ...
+  satelliteCount: number;             // Number of satellites used in the solution
+  hdop: number | null;                // Horizontal dilution of precision
+  altitude: number | null;            // Altitude above mean sea level in meters
+};
+
+/** RMC: Recommended minimum specific GNSS data */
+export type NmeaRmc = {
+  type: 'RMC';
+  talker: string;
+  timeOfDay: number | null;           // UTC time of the fix in milliseconds since midnight
+  date: number | null;                // UTC date of the fix in milliseconds since epoch (midnight)
+  valid: boolean;                     // Whether the receiver reports the data as valid (status A)
+  latitude: number | null;            // Latitude in degrees
+  longitude: number | null;           // Longitude in degrees
+  speed: number | null;               // Speed over ground in meters per second
+  course: number | null;              // Course over ground in degrees clockwise from true north
+};
+
+/** GSA: GNSS DOP and active satellites */
+export type NmeaGsa = {
+  type: 'GSA';
+  talker: string;
+  fixType: number;                    // 1 = no fix, 2 = 2D, 3 = 3D
+  satellitePrns: number[];            // Ids of the satellites used in the solution
+  pdop: number | null;                // Position dilution of precision
+  hdop: number | null;                // Horizontal dilution of precision
+  vdop: number | null;                // Vertical dilution of precision
+};
+
+/** GSV: GNSS satellites in view, one of a series of messages */
+export type NmeaGsv = {
+  type: 'GSV';
+  talker: string;
+  messageCount: number;               // Number of messages in the series
+  messageNumber: number;              // Number of this message in the series, starting at 1
+  satellitesInView: number;           // Total number of satellites in view for this talker
+  satellites: NmeaSatellite[];        // Satellites in this message
+};
+
+/** VTG: Course over ground and ground speed */
+export type NmeaVtg = {
+  type: 'VTG';
+  talker: string;
+  course: number | null;              // Course over ground in degrees clockwise from true north
+  magneticCourse: number | null;      // Course over ground in degrees clockwise from magnetic north
+  speed: number | null;               // Speed over ground in meters per second
+};
+
+/** A parsed NMEA sentence */
+export type NmeaSentence = NmeaGga | NmeaRmc | NmeaGsa | NmeaGsv | NmeaVtg;
+
+/**
+ * Validates the checksum of a sentence: the XOR of all characters between '$' and '*' must equal
+ * the two hexadecimal digits after '*'. Sentences without a checksum are invalid.
+ * @param sentence The sentence, with or without trailing whitespace
+ * @returns true when the checksum is present and correct
+ */
+export function validateNmeaChecksum(sentence: string): boolean {
+  const trimmedSentence = sentence.trim();
+  const checksumIndex = trimmedSentence.lastIndexOf('*');
+  if (trimmedSentence.charAt(0) !== '$' || checksumIndex === -1 || checksumIndex + 3 !== trimmedSentence.length) {
+    return false;
+  }
+
+  let checksum = 0;
+  for (let i = 1; i < checksumIndex; i++) {
+    checksum ^= trimmedSentence.charCodeAt(i);
+  }
+
+  const expectedChecksum = parseInt(trimmedSentence.substring(checksumIndex + 1), 16);
+  return !isNaN(expectedChecksum) && checksum === expectedChecksum;
+}
+
+/**
+ * Parses a sentence with a valid checksum into a typed object. Malformed sentences are skipped with a warning,
+ * sentence types other than GGA, RMC, GSA, GSV and VTG are ignored.
+ * @param sentence The sentence, e.g. '$GNGGA,...*4F'
+ * @returns The parsed sentence, or null when it is invalid or of an unsupported type
+ */
+export function parseNmeaSentence(sentence: string): NmeaSentence | null {
+  const trimmedSentence = sentence.trim();
+  if (!validateNmeaChecksum(trimmedSentence)) {
+    print('parseNmeaSentence() - Warning: invalid checksum: ' + trimmedSentence);
+    return null;
+  }
+
+  const fields = trimmedSentence.substring(1, trimmedSentence.lastIndexOf('*')).split(',');
+  const address = fields[0];
+  if (address.length < 5) {
+    print('parseNmeaSentence() - Warning: invalid address field: ' + trimmedSentence);
+    return null;
+  }
+  const talker = address.substring(0, address.length - 3);
+  const type = address.substring(address.length - 3);
+
+  const minimumFieldCounts: { [type: string]: number } = { GGA: 15, RMC: 12, GSA: 18, GSV: 4, VTG: 9 };
+  if (minimumFieldCounts[type] === undefined) {
+    return null;
+  }
+  if (fields.length < minimumFieldCounts[type]) {
+    print('parseNmeaSentence() - Warning: ' + type + ' sentence has ' + fields.length + ' fields, expected at least ' +
+      minimumFieldCounts[type] + ': ' + trimmedSentence);
+    return null;
+  }
+
+  switch (type) {
+    case 'GGA':
+      return {
+        type: 'GGA',
+        talker: talker,
+        timeOfDay: parseTimeOfDay(fields[1]),
+        latitude: parseCoordinate(fields[2], fields[3], 2),
+        longitude: parseCoordinate(fields[4], fields[5], 3),
+        fixQuality: parseNumber(fields[6]) || 0,
+        satelliteCount: parseNumber(fields[7]) || 0,
+        hdop: parseNumber(fields[8]),
+        altitude: parseNumber(fields[9]),
+      };
+    case 'RMC':
+      return {
+        type: 'RMC',
+        talker: talker,
+        timeOfDay: parseTimeOfDay(fields[1]),
+        date: parseDate(fields[9]),
+        valid: fields[2] === 'A',
+        latitude: parseCoordinate(fields[3], fields[4], 2),
+        longitude: parseCoordinate(fields[5], fields[6], 3),
+        speed: scale(parseNumber(fields[7]), KNOTS_TO_METERS_PER_SECOND),
+        course: parseNumber(fields[8]),
+      };
+    case 'GSA':
+      return {
+        type: 'GSA',
+        talker: talker,
+        fixType: parseNumber(fields[2]) || 1,
+        satellitePrns: fields.slice(3, 15).map((field) => parseNumber(field)).filter((prn) => prn !== null),
+        pdop: parseNumber(fields[15]),
+        hdop: parseNumber(fields[16]),
+        vdop: parseNumber(fields[17]),
+      };
+    case 'GSV': {
+      const satellites: NmeaSatellite[] = [];
+      // Satellites come in groups of four fields, optionally followed by a signal id (NMEA 4.10).
+      for (let i = 4; i + 3 < fields.length; i += 4) {
+        const prn = parseNumber(fields[i]);
+        if (prn !== null) {
+          satellites.push({
+            prn: prn,
+            elevation: parseNumber(fields[i + 1]),
+            azimuth: parseNumber(fields[i + 2]),
+            snr: parseNumber(fields[i + 3]),
+          });
+        }
+      }
+      return {
+        type: 'GSV',
+        talker: talker,
+        messageCount: parseNumber(fields[1]) || 1,
+        messageNumber: parseNumber(fields[2]) || 1,
+        satellitesInView: parseNumber(fields[3]) || 0,
+        satellites: satellites,
+      };
+    }
+    case 'VTG':
+      return {
+        type: 'VTG',
+        talker: talker,
+        course: parseNumber(fields[1]),
+        magneticCourse: parseNumber(fields[3]),
+        speed: scale(parseNumber(fields[7]), 1000 / 3600),
+      };
+  }
+
+  return null;
+}
+
+/**
+ * Returns a user-friendly name for a GGA fix quality.
+ * @param fixQuality The fix quality from a GGA sentence
+ * @returns Name of the fix quality
+ */
+export function getFixQualityName(fixQuality: number): string {
+  switch (fixQuality) {
+    case 0:
+      return 'No fix';
+    case 1:
+      return 'GPS';
+    case 2:
+      return 'DGPS';
+    case 3:
+      return 'PPS';
+    case 4:
+      return 'RTK fixed';
+    case 5:
+      return 'RTK float';
+    case 6:
+      return 'Estimated';
+    case 7:
+      return 'Manual';
+    case 8:
+      return 'Simulation';
+    default:
+      return 'Unknown';
+  }
+}
+
+/**
+ * Combines the sentences of one receiver into LocationFixes. A fix is produced for every GGA sentence with a
+ * valid position, or for every valid RMC sentence when the receiver doesn't send GGA. The other sentences
+ * update the satellite, DOP, speed and course values.
+ */
+export class NmeaFixAssembler {
+
+  /** Fix quality of the last GGA sentence (see getFixQualityName) */
+  fixQuality: number = 0;
+  /** Number of satellites used in the solution */
+  satelliteCount: number = 0;
+  /** Number of satellites in view, summed over all constellations */
+  satellitesInView: number = 0;
+  /** Horizontal dilution of precision */
+  hdop: number = 0;
+  /** Vertical dilution of precision, 0 if unknown */
+  vdop: number = 0;
+  /** Speed over ground in meters per second */
+  speed: number = 0;
+  /** Course over ground in degrees clockwise from true north */
+  course: number = 0;
+
+  /** Number of sentences rejected because of a missing or wrong checksum */
+  checksumErrors: number = 0;
+  /** Number of sentences rejected because they were malformed */
+  invalidSentences: number = 0;
+
+  private readonly sourceId: string;
+
+  /** UTC date from the last RMC sentence, in milliseconds since epoch (midnight) */
+  private date: number = null;
+
+  /** UTC time of day of the last sentence combined with the date, in milliseconds since midnight */
+  private lastTimeOfDay: number = null;
+
+  /** Whether a GGA sentence has been received, after which RMC sentences no longer produce fixes */
+  private receivedGga: boolean = false;
+
+  /** Satellites in view per talker, as GSV series are sent per constellation */
+  private satellitesInViewPerTalker: Map<string, number> = new Map();
+
+  /**
+   * @param sourceId Source id of the produced fixes
+   */
+  constructor(sourceId: string) {
+    this.sourceId = sourceId;
+  }
+
+  /**
+   * Processes one sentence.
+   * @param sentence The sentence
+   * @returns A new fix when the sentence completed one, null otherwise
+   */
+  process(sentence: string): LocationFix | null {
+    if (!validateNmeaChecksum(sentence)) {
+      this.checksumErrors++;
+      print('process() - Warning: invalid NMEA checksum: ' + sentence.trim());
+      return null;
+    }
+
+    const parsedSentence = parseNmeaSentence(sentence);
+    if (parsedSentence === null) {
+      if (this.isSupportedType(sentence)) {
+        this.invalidSentences++;
+      }
+      return null;
+    }
+
+    switch (parsedSentence.type) {
+      case 'GGA':
+        return this.processGga(parsedSentence);
+      case 'RMC':
+        return this.processRmc(parsedSentence);
+      case 'GSA':
+        if (parsedSentence.hdop !== null) {
+          this.hdop = parsedSentence.hdop;
+        }
+        if (parsedSentence.vdop !== null) {
+          this.vdop = parsedSentence.vdop;
+        }
+        return null;
+      case 'GSV':
+        this.satellitesInViewPerTalker.set(parsedSentence.talker, parsedSentence.satellitesInView);
+        this.satellitesInView = 0;
+        this.satellitesInViewPerTalker.forEach((count) => this.satellitesInView += count);
+        return null;
+      case 'VTG':
+        this.updateSpeedAndCourse(parsedSentence.speed, parsedSentence.course);
+        return null;
+    }
+  }
+
+  private processGga(gga: NmeaGga): LocationFix | null {
+    this.receivedGga = true;
+    this.fixQuality = gga.fixQuality;
+    this.satelliteCount = gga.satelliteCount;
+    if (gga.hdop !== null) {
+      this.hdop = gga.hdop;
+    }
+
+    if (gga.fixQuality === 0 || gga.latitude === null || gga.longitude === null) {
+      return null;
+    }
+
+    const horizontalAccuracy = this.estimateHorizontalAccuracy();
+    return createLocationFix(
+      this.sourceId,
+      gga.latitude,
+      gga.longitude,
+      horizontalAccuracy,
+      gga.altitude === null ? 0 : gga.altitude,
+      this.vdop > 0 ? this.vdop * this.getUserEquivalentRangeError() : horizontalAccuracy * 1.5,
+      NMEA_LOCATION_SOURCE,
+      this.getTimestamp(gga.timeOfDay)
+    );
+  }
+
+  private processRmc(rmc: NmeaRmc): LocationFix | null {
+    if (rmc.date !== null) {
+      this.date = rmc.date;
+      this.lastTimeOfDay = rmc.timeOfDay;
+    }
+    if (!rmc.valid) {
+      return null;
+    }
+    this.updateSpeedAndCourse(rmc.speed, rmc.course);
+
+    if (this.receivedGga || rmc.latitude === null || rmc.longitude === null) {
+      return null;
+    }
+
+    // Without GGA there is no fix quality or HDOP, so assume an autonomous GPS fix.
+    this.fixQuality = 1;
+    return createLocationFix(
+      this.sourceId,
+      rmc.latitude,
+      rmc.longitude,
+      this.estimateHorizontalAccuracy(),
+      0,
+      0,
+      NMEA_LOCATION_SOURCE,
+      this.getTimestamp(rmc.timeOfDay)
+    );
+  }
+
+  private updateSpeedAndCourse(speed: number | null, course: number | null) {
+    if (speed !== null) {
+      this.speed = speed;
+    }
+    // The course is meaningless when standing still, so keep the last one.
+    if (course !== null && this.speed > 0.5) {
+      this.course = course;
+    }
+  }
+
+  /**
+   * Estimates the horizontal accuracy in meters from the HDOP and the fix quality.
+   */
+  private estimateHorizontalAccuracy(): number {
+    return (this.hdop > 0 ? this.hdop : 1) * this.getUserEquivalentRangeError();
+  }
+
+  private getUserEquivalentRangeError(): number {
+    return USER_EQUIVALENT_RANGE_ERROR[this.fixQuality] || USER_EQUIVALENT_RANGE_ERROR[1];
+  }
+
+  /**
+   * Combines the UTC time of day of a sentence with the last known date into a timestamp.
+   * Moves the date on by a day when the time of day wrapped past midnight since the last RMC date.
+   * Uses the current UTC date when no RMC date is known, correcting for fixes from just before midnight.
+   */
+  private getTimestamp(timeOfDay: number | null): number {
+    const now = Date.now();
+    if (timeOfDay === null) {
+      return now;
+    }
+
+    if (this.date !== null) {
+      if (this.lastTimeOfDay !== null && timeOfDay < this.lastTimeOfDay - DAY / 2) {
+        this.date += DAY;
+      } else if (this.lastTimeOfDay !== null && timeOfDay > this.lastTimeOfDay + DAY / 2) {
+        // A late sentence from before midnight
+        return this.date - DAY + timeOfDay;
+      }
+      this.lastTimeOfDay = timeOfDay;
+      return this.date + timeOfDay;
+    }
+
+    let timestamp = Math.floor(now / DAY) * DAY + timeOfDay;
+    if (timestamp - now > DAY / 2) {
+      timestamp -= DAY;
+    }
+    return timestamp;
+  }
+
+  private isSupportedType(sentence: string): boolean {
+    const address = sentence.trim().split(',')[0];
+    return ['GGA', 'RMC', 'GSA', 'GSV', 'VTG'].indexOf(address.substring(address.length - 3)) !== -1;
+  }
+}
+
+/**
+ * Parses a numeric field.
+ * @returns The number, or null for an empty or invalid field
+ */
+function parseNumber(field: string): number | null {
+  if (field === undefined || field === '') {
+    return null;
+  }
+  const value = parseFloat(field);
+  return isNaN(value) ? null : value;
+}
+
+function scale(value: number | null, factor: number): number | null {
+  return value === null ? null : value * factor;
+}
+
+/**
+ * Parses a (d)ddmm.mmmm coordinate and its hemisphere into degrees.
+ * @param degreeDigits Number of digits for the degrees: 2 for latitude, 3 for longitude
+ * @returns The coordinate in degrees (negative for S and W), or null for an empty or invalid field
+ */
+function parseCoordinate(field: string, hemisphere: string, degreeDigits: number): number | null {
+  const value = parseNumber(field);
+  if (value === null || field.indexOf('.') !== -1 && field.indexOf('.') < degreeDigits + 2) {
+    return null;
+  }
+
+  const degrees = parseInt(field.substring(0, degreeDigits), 10);
+  const minutes = parseFloat(field.substring(degreeDigits));
+  const coordinate = degrees + minutes / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate;
+}
+
+/**
+ * Parses a hhmmss.ss UTC time field.
+ * @returns Milliseconds since midnight, or null for an empty or invalid field
+ */
+function parseTimeOfDay(field: string): number | null {
+  if (parseNumber(field) === null || field.length < 6) {
+    return null;
+  }
+  const hours = parseInt(field.substring(0, 2), 10);
+  const minutes = parseInt(field.substring(2, 4), 10);
+  const seconds = parseFloat(field.substring(4));
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Parses a ddmmyy UTC date field.
+ * @returns Milliseconds since epoch at midnight of the date, or null for an empty or invalid field
+ */
+function parseDate(field: string): number | null {
+  if (parseNumber(field) === null || field.length !== 6) {
+    return null;
+  }
+  const day = parseInt(field.substring(0, 2), 10);
+  const month = parseInt(field.substring(2, 4), 10);
+  const twoDigitYear = parseInt(field.substring(4, 6), 10);
+  const year = twoDigitYear < 80 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+  return Date.UTC(year, month - 1, day);
+}
@@ -0,0 +1,201 @@
+/**
+ * PositionKalmanFilter - Constant-velocity Kalman filter for smoothing location fixes
+ *
+ * Tracks position and velocity in a local metric frame (meters east/north of the first fix). The east
+ * and north axes are filtered independently, each with a [position, velocity] state and a 2x2 covariance.
+ * Between fixes the state is predicted forward with a constant-velocity model, with the process noise
+ * (random acceleration) configurable. Each fix is then applied as a position measurement whose noise is
+ * derived from the reported horizontalAccuracy, so an inaccurate WiFi fix moves the track less than an
+ * accurate GNSS fix.
+ *
+ * Key Features:
+ * - Filtered latitude/longitude with its own horizontal accuracy
+ * - Speed and course over ground from the filtered velocity
+ * - Configurable process noise
+ * - Automatic re-initialization after long gaps between fixes
+ */
+
+import { directionDegrees, fromLocalMeters, toLocalMeters } from "./GeoMath";
+
+/** Accuracy used when a fix reports an accuracy of 0 (unknown), in meters */
+const UNKNOWN_ACCURACY = 100;
+
+/** Gap between fixes after which the filter starts over from the new fix, in seconds */
+const MAX_PREDICTION_INTERVAL = 30;
+
+/** Distance from the origin after which the local frame is re-centered, in meters */
+const MAX_ORIGIN_DISTANCE = 10000;
+
+/** Initial velocity standard deviation, in meters per second (roughly a fast walk) */
+const INITIAL_VELOCITY_STANDARD_DEVIATION = 2;
+
+/** Filter state for one axis of the local frame */
+class AxisState {
+  position: number = 0;   // Meters from the origin
+  velocity: number = 0;   // Meters per second
+  p00: number = 0;        // Position variance
+  p01: number = 0;        // Position/velocity covariance
+  p11: number = 0;        // Velocity variance
+
+  reset(position: number, positionVariance: number) {
+    this.position = position;
+    this.velocity = 0;
+    this.p00 = positionVariance;
+    this.p01 = 0;
+    this.p11 = INITIAL_VELOCITY_STANDARD_DEVIATION * INITIAL_VELOCITY_STANDARD_DEVIATION;
+  }
+
+  /**
+   * Moves the state forward in time using a constant-velocity model.
+   * @param dt Elapsed time in seconds
+   * @param processNoise Random acceleration spectral density in m²/s³
+   */
+  predict(dt: number, processNoise: number) {
+    this.position += this.velocity * dt;
+
+    const dt2 = dt * dt;
+    const dt3 = dt2 * dt;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + processNoise * dt3 / 3;
+    const p01 = this.p01 + dt * this.p11 + processNoise * dt2 / 2;
+    const p11 = this.p11 + processNoise * dt;
+    this.p00 = p00;
+    this.p01 = p01;
+    this.p11 = p11;
+  }
+
+  /**
+   * Applies a position measurement.
+   * @param measurement Measured position in meters from the origin
+   * @param measurementVariance Variance of the measurement in m²
+   */
+  update(measurement: number, measurementVariance: number) {
+    const innovation = measurement - this.position;
+    const innovationVariance = this.p00 + measurementVariance;
+    const positionGain = this.p00 / innovationVariance;
+    const velocityGain = this.p01 / innovationVariance;
+
+    this.position += positionGain * innovation;
+    this.velocity += velocityGain * innovation;
+
+    const p00 = (1 - positionGain) * this.p00;
+    const p01 = (1 - positionGain) * this.p01;
+    const p11 = this.p11 - velocityGain * this.p01;
+    this.p00 = p00;
+    this.p01 = p01;
+    this.p11 = p11;
+  }
+}
+
+export class PositionKalmanFilter {
+
+  /** Random acceleration spectral density in m²/s³. Higher values follow changes faster, lower values smooth more. */
+  processNoise: number;
+
+  private east = new AxisState();
+  private north = new AxisState();
+
+  private originLatitude: number = 0;
+  private originLongitude: number = 0;
+  private lastTimestamp: number = 0;
+  private initialized: boolean = false;
+
+  constructor(processNoise: number = 0.5) {
+    this.processNoise = processNoise;
+  }
+
+  /**
+   * Forgets the current track. The next fix starts a new one.
+   */
+  reset() {
+    this.initialized = false;
+  }
+
+  /**
+   * Whether the filter has received at least one fix since it was created or reset.
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Predicts the track forward to the time of the fix and applies the fix as a measurement.
+   * @param latitude Measured latitude in degrees
+   * @param longitude Measured longitude in degrees
+   * @param horizontalAccuracy Reported accuracy of the measurement in meters
+   * @param timestamp Time of the measurement in milliseconds since epoch
+   */
+  update(latitude: number, longitude: number, horizontalAccuracy: number, timestamp: number) {
+    const accuracy = horizontalAccuracy > 0 ? horizontalAccuracy : UNKNOWN_ACCURACY;
+    const measurementVariance = accuracy * accuracy;
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+
+    if (!this.initialized || dt > MAX_PREDICTION_INTERVAL || dt < 0) {
+      this.originLatitude = latitude;
+      this.originLongitude = longitude;
+      this.east.reset(0, measurementVariance);
+      this.north.reset(0, measurementVariance);
+      this.lastTimestamp = timestamp;
+      this.initialized = true;
+      return;
+    }
+
+    // The same fix reported again (e.g. polled before a new one was available) carries no new information
+    if (dt === 0) {
+      return;
+    }
+
+    // Keep the local frame centered near the track, so the equirectangular approximation stays accurate
+    let measured = toLocalMeters(this.originLatitude, this.originLongitude, latitude, longitude);
+    if (measured.length > MAX_ORIGIN_DISTANCE) {
+      this.recenter();
+      measured = toLocalMeters(this.originLatitude, this.originLongitude, latitude, longitude);
+    }
+
+    this.east.predict(dt, this.processNoise);
+    this.north.predict(dt, this.processNoise);
+    this.east.update(measured.x, measurementVariance);
+    this.north.update(measured.y, measurementVariance);
+
+    this.lastTimestamp = timestamp;
+  }
+
+  /** Filtered latitude in degrees */
+  get latitude(): number {
+    return this.getFilteredLocation().latitude;
+  }
+
+  /** Filtered longitude in degrees */
+  get longitude(): number {
+    return this.getFilteredLocation().longitude;
+  }
+
+  /** Accuracy (one standard deviation) of the filtered position in meters */
+  get horizontalAccuracy(): number {
+    return Math.sqrt((this.east.p00 + this.north.p00) / 2);
+  }
+
+  /** Filtered speed over ground in meters per second */
+  get speed(): number {
+    return Math.sqrt(this.east.velocity * this.east.velocity + this.north.velocity * this.north.velocity);
+  }
+
+  /** Filtered course over ground in degrees clockwise from north */
+  get course(): number {
+    return directionDegrees(this.east.velocity, this.north.velocity);
+  }
+
+  private getFilteredLocation(): { latitude: number; longitude: number } {
+    return fromLocalMeters(this.originLatitude, this.originLongitude, new vec2(this.east.position, this.north.position));
+  }
+
+  /**
+   * Moves the origin of the local frame to the current filtered position.
+   */
+  private recenter() {
+    const location = this.getFilteredLocation();
+    this.originLatitude = location.latitude;
+    this.originLongitude = location.longitude;
+    this.east.position = 0;
+    this.north.position = 0;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * RingBuffer - Fixed-capacity buffer that overwrites its oldest items when full
+ *
+ * Used to keep a bounded history of recent data (recorded session entries, statistics samples)
+ * without the memory use growing over a long session.
+ *
+ * Key Features:
+ * - Constant-time push, overwriting the oldest item when full
+ * - Oldest-to-newest iteration via toArray()
+ */
+
+export class RingBuffer<T> {
+
+  private items: T[] = [];
+  private start: number = 0;
+  private readonly capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+  }
+
+  /** Number of items currently in the buffer */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /** Whether the buffer has reached its capacity, so that the next push overwrites the oldest item */
+  isFull(): boolean {
+    return this.items.length === this.capacity;
+  }
+
+  /**
+   * Adds an item, overwriting the oldest item when the buffer is full.
+   * @param item The item to add
+   */
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /**
+   * Returns the most recently added item.
+   * @returns The newest item, or undefined when the buffer is empty
+   */
+  last(): T | undefined {
+    if (this.items.length === 0) {
+      return undefined;
+    }
+    return this.items[(this.start + this.items.length - 1) % this.items.length];
+  }
+
+  /**
+   * Returns all items from oldest to newest.
+   */
+  toArray(): T[] {
+    return this.items.slice(this.start).concat(this.items.slice(0, this.start));
+  }
+
+  /**
+   * Removes all items.
+   */
+  clear(): void {
+    this.items = [];
+    this.start = 0;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * RouteSimulatorSource - Simulates walking along a route, for testing at a desk
+ *
+ * This component walks a virtual user along a polyline of waypoints at a configurable walking speed, and
+ * reports the interpolated position as GNSS fixes at a fixed interval and the direction of travel as heading.
+ * Optional Gaussian noise on the position and heading, and configurable reported accuracies, make the output
+ * look like real GNSS and compass data, so filters and UIs can be tested without moving.
+ *
+ * The simulator registers itself in the LocationSourceRegistry as 'simulator'. When driveLocationManager is
+ * enabled, it switches the LocationManager to external input and injects the simulated fixes and headings into
+ * it, and points the user pin of the map at the LocationManager and overrides its heading, so everything behaves
+ * as if the data came from the device. It leaves the LocationManager and the map alone when another source (such
+ * as a LocationReplaySource) already drives the LocationManager.
+ *
+ * Key Features:
+ * - Route from waypoints in the Inspector or from script
+ * - Constant walking speed with position and heading interpolated along the route, optionally looping
+ * - Optional Gaussian noise on position and heading, configurable reported accuracy values
+ * - LocationSource implementation with onFix and onHeadingUpdate events
+ * - Optionally drives the LocationManager and the map heading as if the data came from the device
+ */
+
+import Event from "SpectaclesInteractionKit.lspkg/Utils/Event";
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { directionDegrees, fromLocalMeters, normalizeDegrees, toLocalMeters } from "./GeoMath";
+import { LocationManager } from "./LocationManager";
+import { createLocationFix, LocationFix, LocationSource } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+
+/** Platform location source reported for simulated fixes, so they are shown as GNSS */
+const SIMULATED_LOCATION_SOURCE = 'GNSS_RECEIVER';
+
+@component
+export class RouteSimulatorSource extends BaseScriptComponent implements LocationSource {
+
+  /** Id under which the simulator is registered in the LocationSourceRegistry */
+  static readonly SOURCE_ID = 'simulator';
+
+  readonly sourceId: string = RouteSimulatorSource.SOURCE_ID;
+
+  /** Waypoints of the route, in order */
+  @input
+  @hint("x = latitude, y = longitude, in degrees")
+  public waypoints: vec2[] = [];
+
+  /** Walking speed in meters per second */
+  @input
+  public walkingSpeed: number = 1.4;
+
+  /** Time between simulated fixes in seconds */
+  @input
+  public fixInterval: number = 1;
+
+  /** Whether to start over at the first waypoint when the end of the route is reached */
+  @input
+  public loop: boolean = true;
+
+  /** Whether to start walking when the Lens starts */
+  @input
+  public startOnStart: boolean = false;
+
+  /** Reported horizontal accuracy of the simulated fixes in meters */
+  @input
+  public horizontalAccuracy: number = 5;
+
+  /** Reported altitude of the simulated fixes in meters */
+  @input
+  public altitude: number = 0;
+
+  /** Reported vertical accuracy of the simulated fixes in meters */
+  @input
+  public verticalAccuracy: number = 10;
+
+  /** Whether to add Gaussian noise to the simulated position and heading */
+  @input
+  public addNoise: boolean = false;
+
+  /** Standard deviation of the position noise in meters, per axis */
+  @input
+  @showIf("addNoise", true)
+  public positionNoise: number = 3;
+
+  /** Standard deviation of the heading noise in degrees */
+  @input
+  @showIf("addNoise", true)
+  public headingNoise: number = 5;
+
+  /** Whether to inject the simulated data into the LocationManager, so everything behaves as if it came from the device */
+  @input
+  public driveLocationManager: boolean = true;
+
+  /** LocationManager that is driven by the simulator */
+  @input
+  @showIf("driveLocationManager", true)
+  @allowUndefined
+  public locationManager: LocationManager;
+
+  /** Map whose user pin location and heading are driven by the simulator */
+  @input
+  @showIf("driveLocationManager", true)
+  @allowUndefined
+  public mapComponent: MapComponent;
+
+  /** Waypoints in meters east (x) and north (y) of the first waypoint */
+  private routePoints: vec2[] = [];
+
+  /** Distance along the route at each waypoint, in meters */
+  private cumulativeDistances: number[] = [];
+
+  /** Current distance along the route, in meters */
+  private distanceAlongRoute: number = 0;
+
+  /** Time since the last simulated fix, in seconds */
+  private timeSinceLastFix: number = 0;
+
+  private running: boolean = false;
+
+  /** Whether the simulator switched the LocationManager to external input, so only then it drives and releases it */
+  private claimedLocationManager: boolean = false;
+
+  /** Location source of the map user pin before the simulator took it over */
+  private previousMapLocationSourceId: string = '';
+
+  /** The most recently simulated fix */
+  private lastFix: LocationFix = null;
+
+  private onFixEvent = new Event<LocationFix>();
+  public onFix = this.onFixEvent.publicApi();
+
+  private onHeadingUpdateEvent = new Event<number>();
+  public onHeadingUpdate = this.onHeadingUpdateEvent.publicApi();
+
+  onAwake() {
+    LocationSourceRegistry.getInstance().register(this);
+
+    this.createEvent('UpdateEvent').bind(() => {
+      this.onUpdate();
+    });
+
+    this.createEvent('OnStartEvent').bind(() => {
+      this.setRoute(this.waypoints.map((waypoint) => ({ latitude: waypoint.x, longitude: waypoint.y })));
+
+      if (this.startOnStart) {
+        this.start();
+      }
+    });
+  }
+
+  /**
+   * Replaces the route and moves back to its first waypoint.
+   * @param waypoints Waypoints of the route, in order
+   */
+  setRoute(waypoints: { latitude: number; longitude: number }[]) {
+    this.waypoints = waypoints.map((waypoint) => new vec2(waypoint.latitude, waypoint.longitude));
+    this.routePoints = waypoints.map((waypoint) =>
+      toLocalMeters(waypoints[0].latitude, waypoints[0].longitude, waypoint.latitude, waypoint.longitude)
+    );
+
+    this.cumulativeDistances = [];
+    let distance = 0;
+    this.routePoints.forEach((point, index) => {
+      if (index > 0) {
+        distance += point.distance(this.routePoints[index - 1]);
+      }
+      this.cumulativeDistances.push(distance);
+    });
+
+    this.distanceAlongRoute = 0;
+    this.timeSinceLastFix = this.fixInterval;
+  }
+
+  /**
+   * Starts or resumes walking. Takes over the LocationManager and the map user pin when driveLocationManager is
+   * enabled, unless another source already drives the LocationManager.
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    if (this.routePoints.length === 0) {
+      print('start() - Warning: no route set, nothing to simulate.');
+      return;
+    }
+
+    this.running = true;
+    if (this.driveLocationManager && this.locationManager && !this.locationManager.isExternalInputActive()) {
+      this.locationManager.setExternalInputActive(true);
+      this.claimedLocationManager = true;
+      if (this.mapComponent) {
+        this.previousMapLocationSourceId = this.mapComponent.getUserLocationSourceId();
+        this.mapComponent.setUserLocationSource(this.locationManager.sourceId);
+      }
+    }
+  }
+
+  /**
+   * Stops walking and gives the LocationManager and the map user pin back to the device.
+   * The position along the route is kept, so start() continues from there.
+   */
+  stop() {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+
+    if (this.claimedLocationManager) {
+      this.claimedLocationManager = false;
+      this.locationManager.setExternalInputActive(false);
+      if (this.mapComponent) {
+        this.mapComponent.setUserHeadingOverride(null);
+        this.mapComponent.setUserLocationSource(this.previousMapLocationSourceId);
+      }
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getLastFix(): LocationFix | null {
+    return this.lastFix;
+  }
+
+  /**
+   * Moves back to the first waypoint of the route.
+   */
+  restart() {
+    this.distanceAlongRoute = 0;
+    this.timeSinceLastFix = this.fixInterval;
+  }
+
+  /**
+   * Current distance walked along the route in meters.
+   */
+  getDistanceAlongRoute(): number {
+    return this.distanceAlongRoute;
+  }
+
+  /**
+   * Total length of the route in meters.
+   */
+  getRouteLength(): number {
+    return this.cumulativeDistances.length > 0 ? this.cumulativeDistances[this.cumulativeDistances.length - 1] : 0;
+  }
+
+  /**
+   * Walks along the route by the frame time, publishes the heading every frame,
+   * and publishes a fix every fixInterval seconds.
+   */
+  private onUpdate() {
+    if (!this.running) {
+      return;
+    }
+
+    const deltaTime = getDeltaTime();
+    const routeLength = this.getRouteLength();
+
+    this.distanceAlongRoute += this.walkingSpeed * deltaTime;
+    if (this.distanceAlongRoute > routeLength) {
+      this.distanceAlongRoute = this.loop && routeLength > 0 ? this.distanceAlongRoute % routeLength : routeLength;
+    }
+
+    const segmentIndex = this.getSegmentIndex(this.distanceAlongRoute);
+    this.publishHeading(segmentIndex);
+
+    this.timeSinceLastFix += deltaTime;
+    if (this.timeSinceLastFix >= this.fixInterval) {
+      this.timeSinceLastFix = 0;
+      this.publishFix(segmentIndex);
+    }
+  }
+
+  /**
+   * Index of the route segment (from waypoint index to index + 1) at a distance along the route.
+   * For a single waypoint route, returns 0.
+   */
+  private getSegmentIndex(distance: number): number {
+    let index = 0;
+    while (index < this.cumulativeDistances.length - 2 && this.cumulativeDistances[index + 1] < distance) {
+      index++;
+    }
+    return index;
+  }
+
+  private publishFix(segmentIndex: number) {
+    let position = this.routePoints[segmentIndex];
+    if (segmentIndex + 1 < this.routePoints.length) {
+      const segmentLength = this.cumulativeDistances[segmentIndex + 1] - this.cumulativeDistances[segmentIndex];
+      const t = segmentLength > 0 ? (this.distanceAlongRoute - this.cumulativeDistances[segmentIndex]) / segmentLength : 0;
+      position = vec2.lerp(this.routePoints[segmentIndex], this.routePoints[segmentIndex + 1], t);
+    }
+
+    if (this.addNoise) {
+      position = position.add(new vec2(randomGaussian() * this.positionNoise, randomGaussian() * this.positionNoise));
+    }
+
+    const origin = this.waypoints[0];
+    const location = fromLocalMeters(origin.x, origin.y, position);
+    this.lastFix = createLocationFix(
+      this.sourceId,
+      location.latitude,
+      location.longitude,
+      this.horizontalAccuracy,
+      this.altitude,
+      this.verticalAccuracy,
+      SIMULATED_LOCATION_SOURCE
+    );
+
+    this.onFixEvent.invoke(this.lastFix);
+    if (this.claimedLocationManager) {
+      this.locationManager.injectFix(this.lastFix);
+    }
+  }
+
+  private publishHeading(segmentIndex: number) {
+    if (segmentIndex + 1 >= this.routePoints.length) {
+      return;
+    }
+
+    const direction = this.routePoints[segmentIndex + 1].sub(this.routePoints[segmentIndex]);
+    let heading = directionDegrees(direction.x, direction.y);
+    if (this.addNoise) {
+      heading = normalizeDegrees(heading + randomGaussian() * this.headingNoise);
+    }
+
+    this.onHeadingUpdateEvent.invoke(heading);
+    if (this.claimedLocationManager) {
+      this.locationManager.injectHeading(heading);
+    }
+    if (this.claimedLocationManager && this.mapComponent) {
+      this.mapComponent.setUserHeadingOverride(heading * MathUtils.DegToRad);
+    }
+  }
+}
+
+/**
+ * Returns a normally distributed random number with mean 0 and standard deviation 1 (Box-Muller transform).
+ */
+function randomGaussian(): number {
+  const u = 1 - Math.random(); // (0, 1], avoids log(0)
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,230 @@
+/**
+ * SourceComparison - Compares the fixes of two location sources side by side
+ *
+ * The floating details UI shows the Spectacles and Mobile Kit fixes independently, which makes it hard to tell how
+ * far apart they really are. This component pairs the most recent fix of both sources (by default 'spectacles' and
+ * 'mobile-kit') every time either of them produces a new fix, as long as the two fixes were taken close together in
+ * time, and computes the distance and bearing from the reference fix to the compared fix and their altitude
+ * difference. The samples are kept in a ring buffer, so the statistics follow the most recent minutes.
+ *
+ * Optionally a line is drawn on the map between the two most recent fixes, i.e. between the user pin and the Mobile
+ * Kit pin. The line is created once and moved with the fixes, and hidden while the fixes are too far apart in time
+ * to be compared.
+ *
+ * Key Features:
+ * - Distance and bearing between the fixes of two sources, and their altitude difference
+ * - Pairing only of fixes taken within a maximum time difference of each other
+ * - Rolling mean, median and 95th percentile of the distance and of the altitude difference
+ * - Line between both fixes on the map
+ * - Optional text display of the comparison
+ */
+
+import { MapComponent } from "../MapComponent/Scripts/MapComponent";
+import { directionDegrees, toLocalMeters } from "./GeoMath";
+import { LocationFix } from "./LocationSource";
+import { LocationSourceRegistry } from "./LocationSourceRegistry";
+import { RingBuffer } from "./RingBuffer";
+import { getSummaryStatistics, mean, SummaryStatistics } from "./Statistics";
+
+/** Comparison of one pair of fixes */
+export type ComparisonSample = {
+  timestamp: number;                  // Time of the newer fix of the pair, in milliseconds since epoch
+  distance: number;                   // Horizontal distance in meters
+  bearing: number;                    // Direction from the reference fix to the compared fix, in degrees clockwise from true north
+  altitudeDifference: number;         // Altitude of the compared fix minus altitude of the reference fix, in meters
+};
+
+/** Summary of the comparison over the collected samples */
+export type SourceComparisonReport = {
+  sampleCount: number;
+  latest: ComparisonSample | null;
+  distance: SummaryStatistics;
+  altitudeDifference: SummaryStatistics;  // Of the absolute altitude difference
+  meanAltitudeOffset: number;             // Mean of the signed altitude difference, NaN without samples
+};
+
+@component
+export class SourceComparison extends BaseScriptComponent {
+
+  /** Id of the reference location source (see LocationSourceRegistry) */
+  @input
+  public referenceSourceId: string = 'spectacles';
+
+  /** Id of the location source compared against the reference */
+  @input
+  public comparedSourceId: string = 'mobile-kit';
+
+  /** Maximum time between the two fixes of a pair, in seconds. Fixes further apart are not compared */
+  @input
+  public maxTimeDifference: number = 2;
+
+  /** Maximum number of samples kept, the oldest are dropped */
+  @input
+  public maxSamples: number = 120;
+
+  /** Optional map to draw a line between the two most recent fixes on */
+  @input
+  @allowUndefined
+  public mapComponent: MapComponent;
+
+  /** Thickness of the line between the fixes on the map */
+  @input
+  public lineThickness: number = 0.1;
+
+  /** Optional text component to display the comparison */
+  @input
+  @allowUndefined
+  public comparisonText: Text;
+
+  private samples: RingBuffer<ComparisonSample>;
+
+  private referenceFix: LocationFix = null;
+  private comparedFix: LocationFix = null;
+
+  /** Line between the fixes on the map, null until first drawn */
+  private line: SceneObject = null;
+
+  private mapReady: boolean = false;
+
+  onAwake() {
+    this.samples = new RingBuffer<ComparisonSample>(this.maxSamples);
+
+    const registry = LocationSourceRegistry.getInstance();
+    registry.subscribe(this.referenceSourceId, (fix) => {
+      this.referenceFix = fix;
+      this.compare();
+    });
+    registry.subscribe(this.comparedSourceId, (fix) => {
+      this.comparedFix = fix;
+      this.compare();
+    });
+
+    if (this.mapComponent) {
+      this.mapComponent.subscribeOnMaptilesLoaded(() => {
+        this.mapReady = true;
+        this.updateLine();
+      });
+    }
+
+    this.createEvent('OnStartEvent').bind(() => {
+      this.updateComparisonText();
+    });
+  }
+
+  /**
+   * Removes all samples.
+   */
+  reset() {
+    this.samples.clear();
+    this.updateComparisonText();
+  }
+
+  getSampleCount(): number {
+    return this.samples.size;
+  }
+
+  /**
+   * Returns the latest comparison and the statistics over the collected samples.
+   */
+  getReport(): SourceComparisonReport {
+    const samples = this.samples.toArray();
+    const altitudeDifferences = samples.map((sample) => sample.altitudeDifference);
+
+    return {
+      sampleCount: samples.length,
+      latest: samples.length > 0 ? samples[samples.length - 1] : null,
+      distance: getSummaryStatistics(samples.map((sample) => sample.distance)),
+      altitudeDifference: getSummaryStatistics(altitudeDifferences.map((difference) => Math.abs(difference))),
+      meanAltitudeOffset: mean(altitudeDifferences),
+    };
+  }
+
+  /**
+   * Returns the comparison as text, e.g. for a debug UI.
+   */
+  getReportText(): string {
+    const report = this.getReport();
+    const title = this.referenceSourceId + ' vs ' + this.comparedSourceId;
+    if (report.latest === null) {
+      return title + ': no simultaneous fixes yet';
+    }
+
+    const offset = report.meanAltitudeOffset;
+    return title + ' (' + report.sampleCount + ' samples)' +
+      '\nNow: ' + report.latest.distance.toFixed(1) + 'm at ' + report.latest.bearing.toFixed(0) + '°' +
+      ', altitude ' + formatSigned(report.latest.altitudeDifference) + 'm' +
+      '\nDistance: mean ' + report.distance.mean.toFixed(1) + ', median ' + report.distance.median.toFixed(1) +
+      ', p95 ' + report.distance.p95.toFixed(1) + 'm' +
+      '\nAltitude: mean ' + formatSigned(offset) + ', median ' + report.altitudeDifference.median.toFixed(1) +
+      ', p95 ' + report.altitudeDifference.p95.toFixed(1) + 'm';
+  }
+
+  /**
+   * Compares the most recent fixes of both sources, if they were taken close enough together in time.
+   */
+  private compare() {
+    this.updateLine();
+
+    if (this.referenceFix === null || this.comparedFix === null ||
+      Math.abs(this.referenceFix.timestamp - this.comparedFix.timestamp) > this.maxTimeDifference * 1000) {
+      return;
+    }
+
+    const offset = toLocalMeters(
+      this.referenceFix.latitude,
+      this.referenceFix.longitude,
+      this.comparedFix.latitude,
+      this.comparedFix.longitude
+    );
+
+    this.samples.push({
+      timestamp: Math.max(this.referenceFix.timestamp, this.comparedFix.timestamp),
+      distance: offset.length,
+      bearing: directionDegrees(offset.x, offset.y),
+      altitudeDifference: this.comparedFix.altitude - this.referenceFix.altitude,
+    });
+    this.updateComparisonText();
+  }
+
+  /**
+   * Moves the line to the most recent fixes of both sources, or hides it when they can't be compared.
+   */
+  private updateLine() {
+    if (!this.mapComponent || !this.mapReady) {
+      return;
+    }
+
+    if (this.referenceFix === null || this.comparedFix === null ||
+      Math.abs(this.referenceFix.timestamp - this.comparedFix.timestamp) > this.maxTimeDifference * 1000) {
+      if (this.line !== null) {
+        this.line.enabled = false;
+      }
+      return;
+    }
+
+    // Geometry points are (longitude, latitude)
+    const points = [
+      new vec2(this.referenceFix.longitude, this.referenceFix.latitude),
+      new vec2(this.comparedFix.longitude, this.comparedFix.latitude),
+    ];
+    if (this.line === null) {
+      this.line = this.mapComponent.drawMovableGeometryLine(points, this.lineThickness);
+    } else {
+      this.mapComponent.moveGeometryLine(this.line, points);
+    }
+    this.line.enabled = true;
+  }
+
+  private updateComparisonText() {
+    if (this.comparisonText) {
+      this.comparisonText.text = this.getReportText();
+    }
+  }
+}
+
+/**
+ * Formats a value with an explicit sign, e.g. '+2.5' or '-0.3'.
+ */
+function formatSigned(value: number): string {
+  return (value >= 0 ? '+' : '') + value.toFixed(1);
+}
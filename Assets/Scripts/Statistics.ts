@@ -0,0 +1,77 @@
+/**
+ * Statistics - Summary statistics over a set of samples
+ *
+ * Small helpers to summarize the recent samples kept in a RingBuffer (latencies, distances between
+ * sources, ...) for display. Percentiles interpolate linearly between the sorted samples.
+ *
+ * Key Features:
+ * - Mean, median and arbitrary percentiles
+ * - Summary (count, mean, median, 95th percentile, maximum) in one call
+ */
+
+/** Summary of a set of samples, all values NaN when there are no samples */
+export type SummaryStatistics = {
+  count: number;
+  mean: number;
+  median: number;
+  p95: number;                        // 95th percentile
+  max: number;
+};
+
+/**
+ * Returns the arithmetic mean of the values.
+ * @returns The mean, NaN when there are no values
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Returns a percentile of the values, interpolating linearly between the two nearest values.
+ * @param values The values, in any order
+ * @param percent The percentile in the range [0, 100], e.g. 50 for the median
+ * @returns The percentile, NaN when there are no values
+ */
+export function percentile(values: number[], percent: number): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+  return sortedPercentile(values.slice().sort((a, b) => a - b), percent);
+}
+
+/**
+ * Returns the median of the values.
+ * @returns The median, NaN when there are no values
+ */
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Summarizes the values.
+ * @param values The values, in any order
+ * @returns The count, mean, median, 95th percentile and maximum
+ */
+export function getSummaryStatistics(values: number[]): SummaryStatistics {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: mean(sorted),
+    median: sorted.length > 0 ? sortedPercentile(sorted, 50) : NaN,
+    p95: sorted.length > 0 ? sortedPercentile(sorted, 95) : NaN,
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : NaN,
+  };
+}
+
+/**
+ * Percentile of values that are already sorted in ascending order, at least one value.
+ */
+function sortedPercentile(sorted: number[], percent: number): number {
+  const position = Math.min(Math.max(percent, 0), 100) / 100 * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower]);
+}